@@ -0,0 +1,13 @@
+import AchievementList from "@/components/achievement-list"
+
+export default function AchievementsPage() {
+  return (
+    <main className="flex min-h-screen flex-col items-center gap-6 bg-white p-8">
+      <div className="w-full max-w-3xl">
+        <h1 className="text-3xl font-bold text-gray-800">Achievements</h1>
+        <p className="text-gray-600">Unlocked by playing; each profile earns its own.</p>
+      </div>
+      <AchievementList />
+    </main>
+  )
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server"
+import { benchmarkBot, benchmarkQuerySchema, getBenchmarkRules } from "@/lib/game/bot-benchmark"
+
+// GET /api/bot-benchmark?seeds=100&preset=hard&gravity=0.3 - a preset plus any numeric rule overrides
+// Plays the autopilot headlessly over many seeds under those rules and reports how it scored.
+// A tool for tuning the rules: only served in development or with BOT_BENCHMARK_ENABLED=true.
+// Its work per request is capped; `npm run bench` plays thousands of seeds in its own process.
+export async function GET(request: Request) {
+  if (process.env.NODE_ENV !== "development" && process.env.BOT_BENCHMARK_ENABLED !== "true") {
+    return NextResponse.json({ error: "NOT_FOUND" }, { status: 404 })
+  }
+
+  const { searchParams } = new URL(request.url)
+  const query = benchmarkQuerySchema.safeParse(Object.fromEntries(searchParams))
+  if (!query.success) {
+    return NextResponse.json({ error: "INVALID_QUERY", issues: query.error.issues }, { status: 400 })
+  }
+
+  const { seeds, startSeed, maxTicks, results: includeResults, ...ruleQuery } = query.data
+  const rules = getBenchmarkRules(ruleQuery)
+  if (!rules.success) {
+    return NextResponse.json({ error: "INVALID_QUERY", issues: rules.error.issues }, { status: 400 })
+  }
+
+  const { results, ...summary } = benchmarkBot({ seeds, startSeed, maxTicks, rules: rules.data })
+  return NextResponse.json(includeResults === "true" ? { ...summary, results } : summary)
+}
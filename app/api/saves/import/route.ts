@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { SaveDataError, isNewerSaveData, migrateSaveData } from "@/lib/game/save-data"
+import { SAVE_ERROR_MESSAGES, type SaveErrorCode, getSaveChecksum, saveFileSchema } from "@/lib/save-transfer"
+
+const importRequestSchema = z.object({ file: z.unknown() })
+
+function refuse(code: SaveErrorCode, status: number) {
+  return NextResponse.json({ error: code, message: SAVE_ERROR_MESSAGES[code] }, { status })
+}
+
+// POST /api/saves/import - check an exported file as { file } and return its save, brought up to date
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null)
+  const importRequest = importRequestSchema.safeParse(body)
+  if (!importRequest.success) return refuse("INVALID_REQUEST", 400)
+
+  const file = saveFileSchema.safeParse(importRequest.data.file)
+  if (!file.success) return refuse("INVALID_FILE", 422)
+  if ((await getSaveChecksum(file.data.save)) !== file.data.checksum) return refuse("BAD_CHECKSUM", 422)
+  if (isNewerSaveData(file.data.save)) return refuse("NEWER_SAVE", 422)
+
+  try {
+    return NextResponse.json({ save: migrateSaveData(file.data.save) })
+  } catch (e) {
+    if (e instanceof SaveDataError) return refuse("UNREADABLE_SAVE", 422)
+    throw e
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server"
+import { SAVE_ERROR_MESSAGES, redeemTransferSchema } from "@/lib/save-transfer"
+import { redeemTransfer } from "@/lib/server/transfer-store"
+
+// Wrong guesses are also counted per client address, but only when
+// TRUST_PROXY_HEADERS=true says a proxy in front sets x-forwarded-for, whose
+// last address is then the one that proxy saw. Without one anybody can send
+// the header, so clients aren't told apart at all.
+function getClientAddress(request: Request) {
+  if (process.env.TRUST_PROXY_HEADERS !== "true") return null
+  const forwardedFor = request.headers.get("x-forwarded-for")?.split(",").at(-1)?.trim()
+  return forwardedFor || null
+}
+
+// POST /api/saves/transfer/redeem - pick up a parked save as { code }; each code works once
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null)
+  const redeemRequest = redeemTransferSchema.safeParse(body)
+  if (!redeemRequest.success) {
+    return NextResponse.json({ error: "INVALID_REQUEST", issues: redeemRequest.error.issues }, { status: 400 })
+  }
+
+  const redemption = redeemTransfer(redeemRequest.data.code, getClientAddress(request))
+  if (!redemption.ok) {
+    return NextResponse.json(
+      { error: redemption.code, message: SAVE_ERROR_MESSAGES[redemption.code] },
+      { status: redemption.code === "TOO_MANY_ATTEMPTS" ? 429 : 404 },
+    )
+  }
+  return NextResponse.json({ save: redemption.save })
+}
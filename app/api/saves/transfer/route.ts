@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { saveDataSchema } from "@/lib/game/save-data"
+import { SAVE_ERROR_MESSAGES } from "@/lib/save-transfer"
+import { MAX_TRANSFER_SAVE_BYTES, createTransfer } from "@/lib/server/transfer-store"
+
+const transferRequestSchema = z.object({ save: saveDataSchema })
+
+// POST /api/saves/transfer - park a save as { save } and get a short code to pick it up with elsewhere
+export async function POST(request: Request) {
+  const text = await request.text()
+  if (Buffer.byteLength(text) > MAX_TRANSFER_SAVE_BYTES) {
+    return NextResponse.json({ error: "SAVE_TOO_LARGE", message: SAVE_ERROR_MESSAGES.SAVE_TOO_LARGE }, { status: 413 })
+  }
+
+  let body: unknown
+  try {
+    body = JSON.parse(text)
+  } catch {
+    body = null
+  }
+  const transferRequest = transferRequestSchema.safeParse(body)
+  if (!transferRequest.success) {
+    return NextResponse.json({ error: "INVALID_REQUEST", issues: transferRequest.error.issues }, { status: 400 })
+  }
+
+  const transfer = createTransfer(transferRequest.data.save)
+  if (!transfer) {
+    return NextResponse.json(
+      { error: "TOO_MANY_TRANSFERS", message: SAVE_ERROR_MESSAGES.TOO_MANY_TRANSFERS },
+      { status: 503 },
+    )
+  }
+  return NextResponse.json(transfer, { status: 201 })
+}
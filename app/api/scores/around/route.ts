@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server"
+import { aroundQuerySchema, getLeaderboardBoard } from "@/lib/leaderboard"
+import { getScoresAround } from "@/lib/server/score-store"
+
+// GET /api/scores/around?window=daily|weekly|all&preset=normal&id=<entry id>&radius=3 - an entry and its neighbours.
+// With day=YYYY-MM-DD the entry is looked up on that day's Daily Challenge board instead.
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url)
+  const query = aroundQuerySchema.safeParse(Object.fromEntries(searchParams))
+  if (!query.success) {
+    return NextResponse.json({ error: "INVALID_QUERY", issues: query.error.issues }, { status: 400 })
+  }
+
+  const scores = await getScoresAround(getLeaderboardBoard(query.data), query.data.id, query.data.radius)
+  if (!scores) {
+    return NextResponse.json({ error: "NOT_FOUND" }, { status: 404 })
+  }
+  return NextResponse.json({ scores })
+}
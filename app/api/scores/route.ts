@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server"
+import {
+  SCORE_ERROR_MESSAGES,
+  getLeaderboardBoard,
+  leaderboardQuerySchema,
+  scoreSubmissionSchema,
+} from "@/lib/leaderboard"
+import { addScore, getTopScores } from "@/lib/server/score-store"
+import { verifyReplay } from "@/lib/server/verify-replay"
+
+// GET /api/scores?window=daily|weekly|all&preset=normal&limit=10 - the top of an Endless board
+// GET /api/scores?day=YYYY-MM-DD&limit=10 - the top of that day's Daily Challenge board
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url)
+  const query = leaderboardQuerySchema.safeParse(Object.fromEntries(searchParams))
+  if (!query.success) {
+    return NextResponse.json({ error: "INVALID_QUERY", issues: query.error.issues }, { status: 400 })
+  }
+
+  const scores = await getTopScores(getLeaderboardBoard(query.data), query.data.limit)
+  return NextResponse.json({ scores })
+}
+
+// POST /api/scores - submit a finished run as { name, replay }, plus { day } for a
+// ranked Daily Challenge run. The replay is re-simulated and the score is only
+// accepted if it reproduces exactly, and only once: resubmitting a run that's
+// already on the board, or a second daily run under the same name, is a 409.
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null)
+  const submission = scoreSubmissionSchema.safeParse(body)
+  if (!submission.success) {
+    return NextResponse.json({ error: "INVALID_SUBMISSION", issues: submission.error.issues }, { status: 400 })
+  }
+
+  const { name, replay, day } = submission.data
+  const verification = verifyReplay(replay, day)
+  if (!verification.ok) {
+    return NextResponse.json(
+      { error: verification.code, message: SCORE_ERROR_MESSAGES[verification.code] },
+      { status: 422 },
+    )
+  }
+
+  const addition = await addScore(name, verification.preset, verification.state, verification.runHash, day ?? null)
+  if (!addition.ok) {
+    return NextResponse.json(
+      { error: addition.code, message: SCORE_ERROR_MESSAGES[addition.code] },
+      { status: 409 },
+    )
+  }
+  return NextResponse.json({ entry: addition.entry }, { status: 201 })
+}
@@ -0,0 +1,15 @@
+import BalancingHarness from "@/components/balancing-harness"
+
+export default function BalancePage() {
+  return (
+    <main className="flex min-h-screen flex-col items-center gap-6 bg-white p-8">
+      <div className="w-full max-w-5xl">
+        <h1 className="text-3xl font-bold text-gray-800">Difficulty Balancing</h1>
+        <p className="text-gray-600">
+          Sweep a game rule and let the autopilot play the same seeds at every step to see how it changes difficulty.
+        </p>
+      </div>
+      <BalancingHarness />
+    </main>
+  )
+}
@@ -0,0 +1,16 @@
+import LevelEditor from "@/components/level-editor"
+
+export default function EditorPage() {
+  return (
+    <main className="flex min-h-screen flex-col items-center gap-6 bg-white p-8">
+      <div className="w-full max-w-5xl">
+        <h1 className="text-3xl font-bold text-gray-800">Level Editor</h1>
+        <p className="text-gray-600">
+          Lay out gates, put tokens on them and set the scroll speed, then preview the level or save it as JSON to load
+          from the game&apos;s Levels menu.
+        </p>
+      </div>
+      <LevelEditor />
+    </main>
+  )
+}
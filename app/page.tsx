@@ -1,9 +1,9 @@
-import GameCanvas from "@/components/game-canvas"
+import SharedCourseGame from "@/components/shared-course-game"
 
 export default function Home() {
   return (
     <main className="flex min-h-screen flex-col items-center justify-center bg-white">
-      <GameCanvas />
+      <SharedCourseGame />
     </main>
   )
 }
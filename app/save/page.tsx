@@ -0,0 +1,15 @@
+import SaveManager from "@/components/save-manager"
+
+export default function SavePage() {
+  return (
+    <main className="flex min-h-screen flex-col items-center gap-6 bg-white p-8">
+      <div className="w-full max-w-3xl">
+        <h1 className="text-3xl font-bold text-gray-800">Save Data</h1>
+        <p className="text-gray-600">
+          Back up your records, replays and campaign progress, or carry them over to another browser.
+        </p>
+      </div>
+      <SaveManager />
+    </main>
+  )
+}
@@ -0,0 +1,13 @@
+import StatsDashboard from "@/components/stats-dashboard"
+
+export default function StatsPage() {
+  return (
+    <main className="flex min-h-screen flex-col items-center gap-6 bg-white p-8">
+      <div className="w-full max-w-4xl">
+        <h1 className="text-3xl font-bold text-gray-800">Stats</h1>
+        <p className="text-gray-600">How your runs have gone; each profile keeps its own.</p>
+      </div>
+      <StatsDashboard />
+    </main>
+  )
+}
@@ -0,0 +1,83 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Lock, Trophy } from "lucide-react"
+import ProfileAvatar from "@/components/profile-avatar"
+import { Progress } from "@/components/ui/progress"
+import { cn } from "@/lib/utils"
+import { type AchievementProgress, isAchievementUnlocked, loadAchievements } from "@/lib/game/achievement-storage"
+import { ACHIEVEMENTS } from "@/lib/game/achievements"
+import type { Profile } from "@/lib/game/profiles"
+import { getActiveProfile, loadSaveData } from "@/lib/game/save-store"
+
+function formatUnlockedAt(unlockedAt: string) {
+  return new Date(unlockedAt).toLocaleDateString(undefined, { dateStyle: "medium" })
+}
+
+// Every achievement with the active profile's progress toward it
+export default function AchievementList() {
+  const [progress, setProgress] = useState<AchievementProgress | null>(null)
+  const [profile, setProfile] = useState<Profile | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    loadSaveData().then(() => {
+      if (cancelled) return
+      setProgress(loadAchievements())
+      setProfile(getActiveProfile())
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  if (!progress) {
+    return <p className="text-gray-600">Loading…</p>
+  }
+
+  const unlockedCount = ACHIEVEMENTS.filter((definition) => isAchievementUnlocked(progress, definition.id)).length
+
+  return (
+    <div className="flex w-full max-w-3xl flex-col gap-4">
+      <div className="flex items-center gap-3">
+        {profile && <ProfileAvatar profile={profile} />}
+        <p className="text-gray-700">
+          {profile && <span className="font-bold">{profile.name}: </span>}
+          {unlockedCount} of {ACHIEVEMENTS.length} unlocked
+        </p>
+      </div>
+      <ul className="grid gap-3 sm:grid-cols-2">
+        {ACHIEVEMENTS.map((definition) => {
+          const result = progress[definition.id]
+          const unlockedAt = result?.unlockedAt ?? null
+          const current = unlockedAt ? definition.goal : Math.min(result?.progress ?? 0, definition.goal)
+          return (
+            <li
+              key={definition.id}
+              className={cn(
+                "flex flex-col gap-2 rounded-lg border-2 bg-white p-4",
+                unlockedAt ? "border-yellow-500" : "border-gray-200",
+              )}
+            >
+              <div className="flex items-center gap-2">
+                {unlockedAt ? (
+                  <Trophy className="h-5 w-5 text-yellow-500" />
+                ) : (
+                  <Lock className="h-5 w-5 text-gray-400" />
+                )}
+                <h2 className="font-bold text-gray-800">{definition.name}</h2>
+              </div>
+              <p className="text-sm text-gray-600">{definition.description}</p>
+              <Progress value={(current / definition.goal) * 100} className="h-2" />
+              <p className="text-xs text-gray-500">
+                {unlockedAt
+                  ? `Unlocked ${formatUnlockedAt(unlockedAt)}`
+                  : `${current} / ${definition.goal}${definition.scope === "run" ? " in one run" : ""}`}
+              </p>
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
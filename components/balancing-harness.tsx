@@ -0,0 +1,247 @@
+"use client"
+
+import { useState } from "react"
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts"
+import { Button } from "@/components/ui/button"
+import {
+  type ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Progress } from "@/components/ui/progress"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  BALANCE_PARAMETERS,
+  type BalanceParameter,
+  DEATH_CAUSES,
+  SweepError,
+  type SweepPoint,
+  getDeathCauseBreakdown,
+  getScoreDistribution,
+  getSeriesKey,
+  getSurvivalCurves,
+  getSweepValues,
+  runSweep,
+} from "@/lib/game/balancing"
+import { MAX_BENCHMARK_SEEDS } from "@/lib/game/bot-benchmark"
+import { SIMULATION_TICK_RATE } from "@/lib/game/constants"
+import { DEFAULT_RULES } from "@/lib/game/rules"
+
+const SERIES_COLORS = [
+  "hsl(var(--chart-1))",
+  "hsl(var(--chart-2))",
+  "hsl(var(--chart-3))",
+  "hsl(var(--chart-4))",
+  "hsl(var(--chart-5))",
+  "#9945FF",
+  "#f7931a",
+  "#627eea",
+]
+
+const MAX_STEPS = SERIES_COLORS.length
+const SCORE_BUCKET_SIZE = 5
+
+const DEATH_CAUSE_CHART_CONFIG = {
+  ceiling: { label: "Ceiling", color: "hsl(var(--chart-1))" },
+  floor: { label: "Floor", color: "hsl(var(--chart-2))" },
+  top_gate: { label: "Top gate", color: "hsl(var(--chart-3))" },
+  bottom_gate: { label: "Bottom gate", color: "hsl(var(--chart-4))" },
+  survived: { label: "Survived", color: "hsl(var(--chart-5))" },
+} satisfies ChartConfig
+
+// Bounds of the default sweep: ±20% around the game's own value
+function getDefaultRange(key: BalanceParameter) {
+  const value = DEFAULT_RULES[key]
+  return [String(Number((value * 0.8).toPrecision(4))), String(Number((value * 1.2).toPrecision(4)))]
+}
+
+function formatShare(value: unknown) {
+  return `${Math.round(Number(value) * 100)}%`
+}
+
+// Sweep one rule with the autopilot and chart how the runs turned out
+export default function BalancingHarness() {
+  const [parameter, setParameter] = useState<BalanceParameter>("gravity")
+  const [min, setMin] = useState(() => getDefaultRange("gravity")[0])
+  const [max, setMax] = useState(() => getDefaultRange("gravity")[1])
+  const [steps, setSteps] = useState("3")
+  const [seeds, setSeeds] = useState("200")
+  const [progress, setProgress] = useState<number | null>(null)
+  const [points, setPoints] = useState<SweepPoint[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  const isRunning = progress !== null
+
+  const handleParameterChange = (value: string) => {
+    const key = value as BalanceParameter
+    const [defaultMin, defaultMax] = getDefaultRange(key)
+    setParameter(key)
+    setMin(defaultMin)
+    setMax(defaultMax)
+  }
+
+  const handleRun = async () => {
+    const stepCount = Math.min(MAX_STEPS, Math.max(1, Math.floor(Number(steps)) || 1))
+    let values = getSweepValues(Number(min), Number(max), stepCount)
+    if (parameter === "difficultyGateThreshold") {
+      // Gates are whole numbers
+      values = [...new Set(values.map((value) => Math.max(1, Math.round(value))))]
+    }
+
+    setProgress(0)
+    setError(null)
+    try {
+      setPoints(await runSweep({ parameter, values, seeds: Number(seeds) }, setProgress))
+    } catch (err) {
+      console.error("Error running sweep:", err)
+      setError(err instanceof SweepError ? err.message : "The sweep failed")
+    } finally {
+      setProgress(null)
+    }
+  }
+
+  const parameterLabel = BALANCE_PARAMETERS.find((entry) => entry.key === parameter)?.label
+  const seriesConfig: ChartConfig = Object.fromEntries(
+    points.map((point, index) => [
+      getSeriesKey(index),
+      { label: `${parameterLabel} ${point.value}`, color: SERIES_COLORS[index % SERIES_COLORS.length] },
+    ]),
+  )
+
+  return (
+    <div className="flex w-full max-w-5xl flex-col gap-6">
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="flex flex-col gap-2">
+          <Label>Parameter</Label>
+          <Select value={parameter} onValueChange={handleParameterChange} disabled={isRunning}>
+            <SelectTrigger className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {BALANCE_PARAMETERS.map((entry) => (
+                <SelectItem key={entry.key} value={entry.key}>
+                  {entry.label} (default {DEFAULT_RULES[entry.key]})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="sweep-min">From</Label>
+          <Input id="sweep-min" className="w-24" value={min} onChange={(e) => setMin(e.target.value)} />
+        </div>
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="sweep-max">To</Label>
+          <Input id="sweep-max" className="w-24" value={max} onChange={(e) => setMax(e.target.value)} />
+        </div>
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="sweep-steps">Steps (max {MAX_STEPS})</Label>
+          <Input id="sweep-steps" className="w-24" value={steps} onChange={(e) => setSteps(e.target.value)} />
+        </div>
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="sweep-seeds">Seeds per step (max {MAX_BENCHMARK_SEEDS})</Label>
+          <Input id="sweep-seeds" className="w-24" value={seeds} onChange={(e) => setSeeds(e.target.value)} />
+        </div>
+        <Button onClick={handleRun} disabled={isRunning} className="bg-yellow-500 hover:bg-yellow-600">
+          {isRunning ? "Running…" : "Run Sweep"}
+        </Button>
+      </div>
+
+      {progress !== null && <Progress value={progress * 100} />}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {points.length > 0 && (
+        <>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{parameterLabel}</TableHead>
+                <TableHead className="text-right">Runs</TableHead>
+                <TableHead className="text-right">Average score</TableHead>
+                <TableHead className="text-right">Median</TableHead>
+                <TableHead className="text-right">Best</TableHead>
+                <TableHead className="text-right">Average survival</TableHead>
+                <TableHead className="text-right">Still alive at cap</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {points.map((point) => (
+                <TableRow key={point.value}>
+                  <TableCell>{point.value}</TableCell>
+                  <TableCell className="text-right">{point.report.runs}</TableCell>
+                  <TableCell className="text-right">{point.report.averageScore.toFixed(1)}</TableCell>
+                  <TableCell className="text-right">{point.report.medianScore}</TableCell>
+                  <TableCell className="text-right">{point.report.maxScore}</TableCell>
+                  <TableCell className="text-right">
+                    {(point.report.averageTicks / SIMULATION_TICK_RATE).toFixed(1)}s
+                  </TableCell>
+                  <TableCell className="text-right">{point.report.survivedRuns}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          <section>
+            <h2 className="mb-2 text-lg font-semibold text-gray-800">Score distribution</h2>
+            <ChartContainer config={seriesConfig} className="h-72 w-full">
+              <BarChart data={getScoreDistribution(points, SCORE_BUCKET_SIZE)}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="bucket" />
+                <YAxis tickFormatter={formatShare} />
+                <ChartTooltip content={<ChartTooltipContent formatter={(value) => formatShare(value)} />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                {points.map((_, index) => (
+                  <Bar key={index} dataKey={getSeriesKey(index)} fill={`var(--color-${getSeriesKey(index)})`} />
+                ))}
+              </BarChart>
+            </ChartContainer>
+          </section>
+
+          <section>
+            <h2 className="mb-2 text-lg font-semibold text-gray-800">Survival curve</h2>
+            <ChartContainer config={seriesConfig} className="h-72 w-full">
+              <LineChart data={getSurvivalCurves(points)}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="second" tickFormatter={(second) => `${second}s`} />
+                <YAxis tickFormatter={formatShare} domain={[0, 1]} />
+                <ChartTooltip content={<ChartTooltipContent formatter={(value) => formatShare(value)} />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                {points.map((_, index) => (
+                  <Line
+                    key={index}
+                    dataKey={getSeriesKey(index)}
+                    stroke={`var(--color-${getSeriesKey(index)})`}
+                    dot={false}
+                    type="stepAfter"
+                  />
+                ))}
+              </LineChart>
+            </ChartContainer>
+          </section>
+
+          <section>
+            <h2 className="mb-2 text-lg font-semibold text-gray-800">How runs ended</h2>
+            <ChartContainer config={DEATH_CAUSE_CHART_CONFIG} className="h-72 w-full">
+              <BarChart data={getDeathCauseBreakdown(points)}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="value" />
+                <YAxis tickFormatter={formatShare} domain={[0, 1]} />
+                <ChartTooltip content={<ChartTooltipContent formatter={(value) => formatShare(value)} />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                {[...DEATH_CAUSES, "survived" as const].map((cause) => (
+                  <Bar key={cause} dataKey={cause} stackId="ending" fill={`var(--color-${cause})`} />
+                ))}
+              </BarChart>
+            </ChartContainer>
+          </section>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,64 @@
+"use client"
+
+import { Lock, Star } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { CAMPAIGN_LEVELS, CAMPAIGN_STARS, CAMPAIGN_STAR_LABELS } from "@/lib/game/campaign"
+import { type CampaignProgress, isCampaignLevelUnlocked } from "@/lib/game/campaign-storage"
+
+interface CampaignMapProps {
+  progress: CampaignProgress
+  onPlay: (index: number) => void
+}
+
+// The campaign's levels in order with the stars earned on each; locked levels can't be picked
+export default function CampaignMap({ progress, onPlay }: CampaignMapProps) {
+  return (
+    <div className="flex flex-col items-center gap-3">
+      <div className="grid grid-cols-3 gap-3">
+        {CAMPAIGN_LEVELS.map((definition, index) => {
+          const result = progress[definition.id]
+          const unlocked = isCampaignLevelUnlocked(progress, index)
+          return (
+            <button
+              key={definition.id}
+              onClick={() => onPlay(index)}
+              disabled={!unlocked}
+              className={cn(
+                "flex w-40 flex-col items-center gap-1 rounded-lg border-2 bg-white p-3 transition-colors",
+                unlocked ? "border-yellow-500 hover:bg-yellow-50" : "cursor-not-allowed border-gray-300 opacity-60",
+              )}
+            >
+              <span className="text-sm text-gray-500">Level {index + 1}</span>
+              <span className="font-bold text-gray-800">{definition.level.name}</span>
+              {unlocked ? (
+                <span className="flex gap-1">
+                  {CAMPAIGN_STARS.map((star) => (
+                    <Star
+                      key={star}
+                      aria-label={CAMPAIGN_STAR_LABELS[star]}
+                      className={cn(
+                        "h-5 w-5",
+                        result?.stars.includes(star) ? "fill-yellow-400 text-yellow-500" : "text-gray-300",
+                      )}
+                    />
+                  ))}
+                </span>
+              ) : (
+                <Lock className="h-5 w-5 text-gray-400" />
+              )}
+              <span className="text-xs text-gray-500">{result ? `Best: ${result.bestScore}` : "Not played"}</span>
+            </button>
+          )
+        })}
+      </div>
+      <ul className="flex gap-4 text-xs text-gray-600">
+        {CAMPAIGN_STARS.map((star) => (
+          <li key={star} className="flex items-center gap-1">
+            <Star className="h-3 w-3 fill-yellow-400 text-yellow-500" />
+            {CAMPAIGN_STAR_LABELS[star]}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
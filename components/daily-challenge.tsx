@@ -0,0 +1,66 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Calendar } from "@/components/ui/calendar"
+import { dayKeyToLocalDate, localDateToDayKey } from "@/lib/game/daily"
+import { type DailyHistory, hasRankedAttempt } from "@/lib/game/daily-storage"
+import { type Replay, isReplayCompatible } from "@/lib/game/replay"
+
+interface DailyChallengeProps {
+  today: string // Day key of the current UTC day
+  history: DailyHistory
+  onPlay: (day: string, ranked: boolean) => void
+  onWatch: (replay: Replay) => void
+}
+
+function formatDay(day: string) {
+  return dayKeyToLocalDate(day).toLocaleDateString(undefined, { dateStyle: "long" })
+}
+
+// Calendar of daily courses: pick a day to see how it went and play or watch it
+export default function DailyChallenge({ today, history, onPlay, onWatch }: DailyChallengeProps) {
+  const [selectedDay, setSelectedDay] = useState(today)
+  const result = history[selectedDay]
+  const rankedReplay = result?.rankedReplay ?? null
+  const canPlayRanked = selectedDay === today && !hasRankedAttempt(history, selectedDay)
+
+  return (
+    <div className="flex gap-6 rounded-lg border border-gray-300 bg-white p-2">
+      <Calendar
+        mode="single"
+        selected={dayKeyToLocalDate(selectedDay)}
+        onSelect={(date) => date && setSelectedDay(localDateToDayKey(date))}
+        defaultMonth={dayKeyToLocalDate(today)}
+        disabled={{ after: dayKeyToLocalDate(today) }}
+        modifiers={{ played: Object.keys(history).map(dayKeyToLocalDate) }}
+        modifiersClassNames={{ played: "font-bold underline" }}
+      />
+
+      <div className="flex w-56 flex-col justify-center gap-2 pr-4">
+        <p className="text-lg font-bold text-gray-800">{formatDay(selectedDay)}</p>
+        <p className="text-gray-700">
+          Ranked: {rankedReplay ? rankedReplay.score : result?.rankedAttempted ? "left unfinished" : "not played"}
+        </p>
+        <p className="text-gray-700">
+          Practice best: {result?.practiceBest ?? 0}
+          <span className="text-sm text-gray-500"> ({result?.practiceRuns ?? 0} runs)</span>
+        </p>
+
+        {canPlayRanked && (
+          <Button onClick={() => onPlay(selectedDay, true)} className="bg-yellow-500 hover:bg-yellow-600">
+            Play Ranked Attempt
+          </Button>
+        )}
+        <Button onClick={() => onPlay(selectedDay, false)} variant="outline">
+          Practice
+        </Button>
+        {rankedReplay && isReplayCompatible(rankedReplay) && (
+          <Button onClick={() => onWatch(rankedReplay)} variant="outline">
+            Watch Ranked Run
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
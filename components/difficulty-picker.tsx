@@ -0,0 +1,28 @@
+"use client"
+
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { DIFFICULTY_PRESETS, DIFFICULTY_PRESET_LABELS, type DifficultyPreset } from "@/lib/game/rules"
+
+interface DifficultyPickerProps {
+  value: DifficultyPreset
+  onValueChange: (preset: DifficultyPreset) => void
+}
+
+export default function DifficultyPicker({ value, onValueChange }: DifficultyPickerProps) {
+  return (
+    <ToggleGroup
+      type="single"
+      variant="outline"
+      value={value}
+      onValueChange={(preset) => preset && onValueChange(preset as DifficultyPreset)}
+      className="bg-white/70 rounded-md p-1"
+      aria-label="Difficulty"
+    >
+      {DIFFICULTY_PRESETS.map((preset) => (
+        <ToggleGroupItem key={preset} value={preset} className="px-4">
+          {DIFFICULTY_PRESET_LABELS[preset]}
+        </ToggleGroupItem>
+      ))}
+    </ToggleGroup>
+  )
+}
@@ -1,181 +1,409 @@
 "use client"
 
 import { useEffect, useRef, useState } from "react"
+import { Pause, Play, Star } from "lucide-react"
+import Link from "next/link"
+import CampaignMap from "@/components/campaign-map"
+import DailyChallenge from "@/components/daily-challenge"
+import DifficultyPicker from "@/components/difficulty-picker"
+import GhostPicker, { BEST_GHOST, resolveGhostReplay } from "@/components/ghost-picker"
+import Leaderboard from "@/components/leaderboard"
+import LevelPicker from "@/components/level-picker"
+import MarketDataPicker from "@/components/market-data-picker"
+import ModePicker from "@/components/mode-picker"
+import ProfileAvatar from "@/components/profile-avatar"
+import ProfileSwitcher from "@/components/profile-switcher"
+import ReplayControls from "@/components/replay-controls"
+import ScoreSubmitForm from "@/components/score-submit-form"
+import ShareLinkButton from "@/components/share-link-button"
+import TokenIcon from "@/components/token-icon"
 import { Button } from "@/components/ui/button"
+import { toast } from "@/hooks/use-toast"
 import { cn } from "@/lib/utils"
-
-// Game constants
-const GAME_WIDTH = 800
-const GAME_HEIGHT = 600
-const LINE_SPEED = 2
-const GATE_SPEED = 2.53 // Increased by 15% from 2.2
-const DIFFICULTY_INCREASE = 0.1 // 10% speed increase after 15 gates
-const DIFFICULTY_GATE_THRESHOLD = 15 // Increase difficulty after this many gates
-const BTC_SPEED_BOOST = 1.1 // Additional 10% speed when BTC is active
-const SOL_SPEED_BOOST = 2.0 // 100% faster when SOL is active
-const GATE_WIDTH = 50
-const GATE_DISTANCE = GATE_WIDTH * 4 // Fixed distance of 4 gate widths
-const INITIAL_GATE_GAP = 150 // Reduced by 40% from 250
-const NARROW_GATE_GAP = 120 // Reduced by 40% from 200
-const GATE_GAP_INCREASE_PERCENT = 50 // Increased from 20% to 50% for more noticeable effect
-const LINE_X_POSITION = 100 // Fixed x position of the line
-const BOUNCE_VELOCITY = -5.5 // Increased by 10% from -5
-const GRAVITY = 0.22 // Increased by 10% from 0.2
-const TOKEN_COLLECTION_RADIUS = 50 // Increased from 30 to 50 for easier collection
-const SCREEN_FLASH_DURATION = 150 // Flash duration in milliseconds
-const BCH_CHAOS_DURATION = 3000 // 3 seconds of chaos for BCH (increased from 1 second)
-const SOL_EFFECT_DURATION = 5000 // 5 seconds of SOL effect
-const MIN_VERTICAL_VARIANCE = -100 // Minimum vertical shift for gates
-const MAX_VERTICAL_VARIANCE = 100 // Maximum vertical shift for gates
-
-// Token types
-enum TokenType {
-  NONE = "none",
-  BTC = "btc",
-  ETH = "eth",
-  TAO = "tao",
-  BCH = "bch",
-  HBAR = "hbar",
-  SOL = "sol", // New SOL token
-}
+import { trackAchievements } from "@/lib/game/achievement-tracker"
+import type { AchievementDefinition } from "@/lib/game/achievements"
+import {
+  CAMPAIGN_LEVELS,
+  CAMPAIGN_RULES,
+  CAMPAIGN_STARS,
+  CAMPAIGN_STAR_LABELS,
+  type CampaignStar,
+  getCampaignStars,
+} from "@/lib/game/campaign"
+import {
+  type CampaignProgress,
+  isCampaignLevelUnlocked,
+  loadCampaignProgress,
+  saveCampaignRun,
+} from "@/lib/game/campaign-storage"
+import { GAME_HEIGHT, GAME_WIDTH, MAX_FRAME_DELTA, SIMULATION_STEP_MS } from "@/lib/game/constants"
+import { type Controller, createAutopilot, getControllerInput } from "@/lib/game/controller"
+import { getDailySeed, getDayKey } from "@/lib/game/daily"
+import {
+  type DailyHistory,
+  hasRankedAttempt,
+  loadDailyHistory,
+  saveDailyRun,
+  startRankedDailyRun,
+} from "@/lib/game/daily-storage"
+import { type RunKind, createGameEventBus } from "@/lib/game/game-events"
+import {
+  type HighScores,
+  loadHighScores,
+  loadTokenRecords,
+  saveHighScore,
+  saveTokenRecords,
+} from "@/lib/game/high-scores"
+import type { Level } from "@/lib/game/level"
+import type { MarketCourse } from "@/lib/game/market-data"
+import { DEFAULT_MODE, type GameMode, getModeDefinition, getTimeLeft } from "@/lib/game/modes"
+import { type GhostView, advanceTrail, createTrail, interpolateState, renderFrame } from "@/lib/game/renderer"
+import {
+  type Replay,
+  createReplay,
+  getReplayInput,
+  getReplayMode,
+  getReplayRules,
+  simulateReplay,
+} from "@/lib/game/replay"
+import { loadBestReplay, loadRecentReplays, saveReplay } from "@/lib/game/replay-storage"
+import { recordRunLogs } from "@/lib/game/run-log"
+import { createRandomSeed } from "@/lib/game/rng"
+import type { SaveData } from "@/lib/game/save-data"
+import { type ProfileDetails, type ProfileList, findActiveProfile } from "@/lib/game/profiles"
+import { addProfile, getProfileList, loadSaveData, saveSettings, switchProfile } from "@/lib/game/save-store"
+import type { SharedCourse } from "@/lib/game/share-link"
+import {
+  DEFAULT_PRESET,
+  DEFAULT_RULES,
+  DIFFICULTY_PRESET_LABELS,
+  type DifficultyPreset,
+  type GameRules,
+  PRESET_RULES,
+  getRulesPreset,
+} from "@/lib/game/rules"
+import {
+  type RunEndCause,
+  type SimulationState,
+  createInitialState,
+  stepSimulation,
+} from "@/lib/game/simulation"
+import { TOKEN_DEFINITIONS } from "@/lib/game/tokens"
+import { type TokenCounts, type TrailPoint, createEmptyTokenCounts } from "@/lib/game/types"
+import type { RankedScoreEntry } from "@/lib/leaderboard"
 
 // Game states
 enum GameState {
   START = 0,
   PLAYING = 1,
   GAME_OVER = 2,
+  REPLAY = 3,
+  PAUSED = 4,
+}
+
+// Which screen of the START overlay is showing
+type StartMenu =
+  | "main"
+  | "campaign"
+  | "endless"
+  | "daily"
+  | "dailyLeaderboard"
+  | "market"
+  | "levels"
+  | "leaderboard"
+  | "challenge"
+  | "profiles"
+
+const RESUME_COUNTDOWN_SECONDS = 3
+
+// How often playback hands its tick and score to the replay controls; rendering every frame stays in the loop
+const REPLAY_CONTROLS_UPDATE_MS = 100
+
+// Everything about the run in progress. Kept in a ref so pausing (which stops
+// the loop) doesn't lose it.
+interface LiveRun {
+  state: SimulationState
+  previousState: SimulationState
+  accumulator: number // Real time not yet consumed by fixed simulation steps
+  inputs: number[] // Ticks the player bounced on, for the replay
+  trail: TrailPoint[]
+  ghost: GhostRun | null
+  controller: Controller | null // Plays the run instead of the player, e.g. the autopilot
+  quitQueued: boolean // The player chose End Run; the next step ends the run
+}
+
+// A previous run replayed on the same seed in lockstep with the player
+interface GhostRun {
+  inputTicks: ReadonlySet<number>
+  finalTick: number
+  state: SimulationState
+  previousState: SimulationState
+  trail: TrailPoint[]
+}
+
+// What kind of run to start; a plain Endless run on Normal by default
+interface RunOptions {
+  rules?: GameRules
+  mode?: GameMode
+  ghost?: Replay | null
+  daily?: DailyRun | null
+  market?: MarketCourse | null
+  level?: Level | null
+  campaign?: number | null // Index of the campaign level being flown
+  controller?: Controller | null
+  challenge?: SharedCourse | null // The shared course this run is flying, if it came from a link
+}
+
+function createLiveRun(
+  seed: number,
+  {
+    rules = DEFAULT_RULES,
+    mode = DEFAULT_MODE,
+    ghost: ghostReplay = null,
+    market = null,
+    level = null,
+    controller = null,
+  }: RunOptions,
+): LiveRun {
+  const state = createInitialState(seed, { market, level, rules, mode })
+  let ghost: GhostRun | null = null
+  if (ghostReplay) {
+    const ghostState = createInitialState(ghostReplay.seed, {
+      market: ghostReplay.market,
+      rules: getReplayRules(ghostReplay),
+      mode: getReplayMode(ghostReplay),
+    })
+    ghost = {
+      inputTicks: new Set(ghostReplay.inputs),
+      finalTick: ghostReplay.finalTick,
+      state: ghostState,
+      previousState: ghostState,
+      trail: createTrail(ghostState.lineY),
+    }
+  }
+
+  return {
+    state,
+    previousState: state,
+    accumulator: 0,
+    inputs: [],
+    trail: createTrail(state.lineY),
+    ghost,
+    controller,
+    quitQueued: false,
+  }
+}
+
+function getRunKind({ controller, daily, campaign, challenge, level, market }: RunOptions): RunKind {
+  if (controller) return "bot"
+  if (daily) return "daily"
+  if (campaign !== undefined && campaign !== null) return "campaign"
+  if (challenge) return "challenge"
+  if (level) return "level"
+  if (market) return "market"
+  return "endless"
+}
+
+function announceAchievements(definitions: AchievementDefinition[]) {
+  for (const definition of definitions) {
+    toast({ title: `Achievement unlocked: ${definition.name}`, description: definition.description })
+  }
 }
 
-// Game objects
-interface Gate {
-  x: number
-  topHeight: number
-  hasPassed: boolean
-  tokenType: TokenType
-  baseGateGap: number // Store the original gap
-  isFlashing: boolean
+function formatReplayRules(replay: Replay) {
+  const preset = getRulesPreset(getReplayRules(replay))
+  const presetLabel = preset ? DIFFICULTY_PRESET_LABELS[preset] : "Custom rules"
+  return `${getModeDefinition(getReplayMode(replay)).name} · ${presetLabel}`
 }
 
-interface TrailPoint {
-  y: number
-  isAscending: boolean
+// The Daily Challenge day being flown, and whether this is its one ranked attempt
+interface DailyRun {
+  day: string
+  ranked: boolean
 }
 
-interface TokenEffect {
-  type: TokenType
-  endTime: number
+// Playback settings read by the replay loop every frame
+interface ReplayControlState {
+  isPaused: boolean
+  speed: number
+  seekTo: number | null
 }
 
-interface TokenCounts {
-  [TokenType.BTC]: number
-  [TokenType.ETH]: number
-  [TokenType.TAO]: number
-  [TokenType.BCH]: number
-  [TokenType.HBAR]: number
-  [TokenType.SOL]: number
+interface GameCanvasProps {
+  level?: Level | null // Open on this level instead of the main menu, e.g. to preview it from the editor
+  sharedCourse?: SharedCourse | null // Open on a course from a share link
 }
 
-export default function GameCanvas() {
+export default function GameCanvas({ level = null, sharedCourse = null }: GameCanvasProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const [gameState, setGameState] = useState<GameState>(GameState.START)
+  const [isSaveLoaded, setIsSaveLoaded] = useState(false) // Records below are read from the save once it has loaded
+  const [profileList, setProfileList] = useState<ProfileList | null>(null) // Whose save that is
   const [score, setScore] = useState(0)
-  const [highScore, setHighScore] = useState(0)
-  const [tokenCounts, setTokenCounts] = useState<TokenCounts>({
-    [TokenType.BTC]: 0,
-    [TokenType.ETH]: 0,
-    [TokenType.TAO]: 0,
-    [TokenType.BCH]: 0,
-    [TokenType.HBAR]: 0,
-    [TokenType.SOL]: 0,
-  })
+  const [highScores, setHighScores] = useState<HighScores>({})
+  const [seed, setSeed] = useState<number | null>(null) // Seed of the current (or last) run
+  const [tokenCounts, setTokenCounts] = useState<TokenCounts>(createEmptyTokenCounts)
 
   // New state for highest token counts
-  const [highestTokenCounts, setHighestTokenCounts] = useState<TokenCounts>({
-    [TokenType.BTC]: 0,
-    [TokenType.ETH]: 0,
-    [TokenType.TAO]: 0,
-    [TokenType.BCH]: 0,
-    [TokenType.HBAR]: 0,
-    [TokenType.SOL]: 0,
-  })
-
-  // Use a ref to track token counts during gameplay
-  const tokenCountsRef = useRef<TokenCounts>({
-    [TokenType.BTC]: 0,
-    [TokenType.ETH]: 0,
-    [TokenType.TAO]: 0,
-    [TokenType.BCH]: 0,
-    [TokenType.HBAR]: 0,
-    [TokenType.SOL]: 0,
-  })
-
-  // Load high score and highest token counts from localStorage on component mount
-  useEffect(() => {
-    const savedHighScore = localStorage.getItem("btcGameHighScore")
-    if (savedHighScore) {
-      setHighScore(Number.parseInt(savedHighScore, 10))
-    }
+  const [highestTokenCounts, setHighestTokenCounts] = useState<TokenCounts>(createEmptyTokenCounts)
+
+  // Replays of the last run and the personal best, plus playback state
+  const [lastReplay, setLastReplay] = useState<Replay | null>(null)
+  const [bestReplay, setBestReplay] = useState<Replay | null>(null)
+  const [recentReplays, setRecentReplays] = useState<Replay[]>([])
+  const [activeReplay, setActiveReplay] = useState<Replay | null>(null)
+  const [replayTick, setReplayTick] = useState(0)
+  const [replayScore, setReplayScore] = useState(0)
+  const [replayPaused, setReplayPaused] = useState(false)
+  const [replaySpeed, setReplaySpeed] = useState(1)
+  const replayControlRef = useRef<ReplayControlState>({ isPaused: false, speed: 1, seekTo: null })
+
+  // Ghost racing: which saved run to race, the one raced this run and the gate difference to it
+  const [ghostChoice, setGhostChoice] = useState(BEST_GHOST)
+  const [raceGhost, setRaceGhost] = useState<Replay | null>(null)
+  const [ghostLead, setGhostLead] = useState(0)
+
+  // The run in progress and the resume countdown shown while paused
+  const runRef = useRef<LiveRun | null>(null)
+  const [gameEvents] = useState(createGameEventBus) // Every run this canvas plays reports here
+  const [resumeCountdown, setResumeCountdown] = useState<number | null>(null)
+
+  // The START overlay screen; a level or link handed in opens straight onto it
+  const [menu, setMenu] = useState<StartMenu>(level ? "levels" : sharedCourse ? "challenge" : "main")
+
+  // Global leaderboard: the player's last submitted entry
+  const [lastScoreId, setLastScoreId] = useState<string | null>(null)
+
+  // Daily Challenge: the daily run in progress and past results
+  const [dailyRun, setDailyRun] = useState<DailyRun | null>(null)
+  const [dailyHistory, setDailyHistory] = useState<DailyHistory>({})
+
+  // Market data mode: the loaded candles and whether the current (or last) run flies them
+  const [marketCourse, setMarketCourse] = useState<MarketCourse | null>(null)
+  const [isMarketRun, setIsMarketRun] = useState(false)
+
+  // Levels: the loaded level, whether the current (or last) run flies one and how the last run ended
+  const [levelCourse, setLevelCourse] = useState<Level | null>(level)
+  const [isLevelRun, setIsLevelRun] = useState(false)
+  const [endCause, setEndCause] = useState<RunEndCause | null>(null)
+
+  // Campaign: progress so far, the level being flown and the stars the last run earned
+  const [campaignProgress, setCampaignProgress] = useState<CampaignProgress>({})
+  const [campaignRun, setCampaignRun] = useState<number | null>(null)
+  const [campaignStars, setCampaignStars] = useState<CampaignStar[]>([])
+
+  // Share links: the linked course being flown
+  const [challengeRun, setChallengeRun] = useState<SharedCourse | null>(null)
+
+  // Whether the current (or last) run is the autopilot playing
+  const [isBotRun, setIsBotRun] = useState(false)
+
+  // Difficulty: the preset picked for new runs and the one the current (or last) run is on
+  const [preset, setPreset] = useState<DifficultyPreset>(DEFAULT_PRESET)
+  const [runPreset, setRunPreset] = useState<DifficultyPreset>(DEFAULT_PRESET)
+  const highScore = highScores[runPreset]?.score ?? 0
+
+  // Game mode: the mode picked for new runs and the one the current (or last) run is in,
+  // plus the clock of a timed run and the hits taken in Zen
+  const [mode, setMode] = useState<GameMode>(DEFAULT_MODE)
+  const [runMode, setRunMode] = useState<GameMode>(DEFAULT_MODE)
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null)
+  const [collisions, setCollisions] = useState(0)
+  const runModeDefinition = getModeDefinition(runMode)
+
+  // The course of the last run as a share link; market courses are too big to put in a URL
+  const finishedCourse: SharedCourse | null = isLevelRun
+    ? levelCourse && { kind: "level", level: levelCourse, preset: runPreset, score }
+    : !isMarketRun && seed !== null
+      ? { kind: "seed", seed, preset: runPreset, mode: runMode, score }
+      : null
+
+  // Show the saved choices, records and replays of the active profile
+  const applySaveData = ({ settings }: SaveData) => {
+    setPreset(settings.preset)
+    setMode(settings.mode)
+    setLastScoreId(settings.lastScoreId)
+    setRecentReplays(loadRecentReplays())
+    setDailyHistory(loadDailyHistory())
+    setCampaignProgress(loadCampaignProgress())
+    setProfileList(getProfileList())
+    setIsSaveLoaded(true)
+  }
 
-    // Load highest token counts
-    const savedHighestTokenCounts = localStorage.getItem("btcGameHighestTokenCounts")
-    if (savedHighestTokenCounts) {
-      try {
-        setHighestTokenCounts(JSON.parse(savedHighestTokenCounts))
-      } catch (e) {
-        console.error("Error parsing highest token counts:", e)
-      }
+  // Load the save on component mount
+  useEffect(() => {
+    let cancelled = false
+    loadSaveData()
+      .then((data) => {
+        if (!cancelled) applySaveData(data)
+      })
+      .catch((e) => console.error("Error loading save data:", e)) // Play on with the defaults
+    return () => {
+      cancelled = true
     }
   }, [])
 
-  // Keep tokenCountsRef in sync with tokenCounts state
+  // High scores and token records are kept per mode; show the ones of the run being played
+  const activeProfile = profileList && findActiveProfile(profileList)
+  const activeProfileId = activeProfile?.id
   useEffect(() => {
-    tokenCountsRef.current = { ...tokenCounts }
-  }, [tokenCounts])
+    if (!isSaveLoaded) return
+    setHighScores(loadHighScores(runMode))
+    setHighestTokenCounts(loadTokenRecords(runMode))
+  }, [isSaveLoaded, activeProfileId, runMode])
 
-  // Game loop using requestAnimationFrame
+  // The personal best shown and raced is the one for the picked mode and preset
+  useEffect(() => {
+    if (!isSaveLoaded) return
+    setBestReplay(loadBestReplay(mode, preset))
+  }, [isSaveLoaded, activeProfileId, mode, preset, recentReplays])
+
+  // The HUD, achievements and the run log follow every run through its events
+  useEffect(() => {
+    const unsubscribes = [
+      gameEvents.on("run_started", () => {
+        setScore(0)
+        setTokenCounts(createEmptyTokenCounts())
+        setCollisions(0)
+        setEndCause(null)
+      }),
+      gameEvents.on("gate_passed", (event) => setScore(event.score)),
+      gameEvents.on("token_collected", (event) => {
+        setScore(event.score)
+        setTokenCounts((prevCounts) => ({ ...prevCounts, [event.tokenType]: event.count }))
+      }),
+      gameEvents.on("collision", (event) => {
+        setScore(event.score)
+        setCollisions(event.collisions)
+      }),
+      gameEvents.on("game_over", (event) => setEndCause(event.cause)),
+      trackAchievements(gameEvents, announceAchievements),
+      recordRunLogs(gameEvents),
+    ]
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe())
+  }, [gameEvents])
+
+  // Game loop using requestAnimationFrame. The run itself lives in runRef so it
+  // survives the loop being torn down while paused.
   useEffect(() => {
     if (gameState !== GameState.PLAYING) return
 
+    const run = runRef.current
+    if (!run) return
+
     const canvas = canvasRef.current
     if (!canvas) return
 
     const ctx = canvas.getContext("2d")
     if (!ctx) return
 
-    // Game variables
     let animationFrameId: number
-    let lineY = GAME_HEIGHT / 2
-    let lineVelocity = 0
-    let isAscending = false
-    let gates: Gate[] = []
-    let lastGateX = GAME_WIDTH // Track the x position of the last gate
-    let gatesPassed = 0
-    let currentScore = 0 // Track score within the game loop
-    let baseSpeed = GATE_SPEED // Base speed that will increase with difficulty
-    let currentSpeed = baseSpeed
-    let activeEffects: TokenEffect[] = []
-    let isGoldMode = false
-    let flashingGates = false
-    let btcEffectActive = false // Track if BTC effect is active
-    let solEffectActive = false // Track if SOL effect is active
-    let screenFlashTime = 0 // Track when the screen flash started
-    let chaosMode = false // Track if BCH chaos mode is active
-    let chaosModeEndTime = 0 // When chaos mode should end
-    let lastTokenType = TokenType.NONE // Track the last token type spawned
-    let difficultyLevel = 1 // Track the current difficulty level
-
-    // Create a simple array to store the trail
-    // Each index represents an x-coordinate, and the value represents the y-coordinate and direction
-    const trail: TrailPoint[] = new Array(LINE_X_POSITION + 1).fill(null).map(() => ({
-      y: lineY,
-      isAscending: false,
-    }))
-
-    // Input handlers
+    let lastTimestamp: number | null = null // Reset on every (re)start so paused time never counts
+    let bounceQueued = false
+
+    // Input handlers: the bounce is applied on the next simulation step
     const handleInput = () => {
-      // Use static bounce height
-      lineVelocity = BOUNCE_VELOCITY
-      isAscending = true
+      bounceQueued = true
     }
 
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -193,999 +421,415 @@ export default function GameCanvas() {
     window.addEventListener("keydown", handleKeyDown)
     canvas.addEventListener("click", handleClick)
 
-    // Function to get a random vertical variance for gates
-    function getRandomVerticalVariance() {
-      return MIN_VERTICAL_VARIANCE + Math.random() * (MAX_VERTICAL_VARIANCE - MIN_VERTICAL_VARIANCE)
-    }
+    const handleGameOver = (finalState: SimulationState) => {
+      setGameState(GameState.GAME_OVER)
+      const replay = createReplay(finalState, run.inputs)
+      setLastReplay(replay)
 
-    // Function to get a random token type different from the last one
-    function getRandomTokenType() {
-      const tokenRoll = Math.random()
-      let tokenType = TokenType.NONE
-
-      // Create a pool of possible token types, excluding the last one
-      const possibleTokens = []
-
-      if (tokenRoll < 0.25) {
-        // 25% chance for any token
-        if (lastTokenType !== TokenType.BTC) possibleTokens.push(TokenType.BTC)
-        if (lastTokenType !== TokenType.ETH) possibleTokens.push(TokenType.ETH)
-        if (lastTokenType !== TokenType.TAO) possibleTokens.push(TokenType.TAO)
-        if (lastTokenType !== TokenType.BCH) possibleTokens.push(TokenType.BCH)
-        if (lastTokenType !== TokenType.HBAR) possibleTokens.push(TokenType.HBAR)
-        if (lastTokenType !== TokenType.SOL) possibleTokens.push(TokenType.SOL)
-
-        // If we have possible tokens, select one randomly
-        if (possibleTokens.length > 0) {
-          const randomIndex = Math.floor(Math.random() * possibleTokens.length)
-          tokenType = possibleTokens[randomIndex]
-        }
+      // Campaign levels earn stars, though like other levels they don't touch the records below
+      if (campaignRun !== null && !run.controller) {
+        const stars = getCampaignStars(finalState)
+        setCampaignStars(stars)
+        setCampaignProgress(saveCampaignRun(CAMPAIGN_LEVELS[campaignRun].id, finalState.score, stars))
       }
 
-      return tokenType
-    }
+      // Bot runs, levels and market data runs can be watched again but don't count toward the player's records;
+      // market candles can be any CSV, so their runs aren't comparable with Endless ones
+      if (run.controller || finalState.level || finalState.market) return
 
-    // Initialize with a gate at the right edge of the screen
-    function initializeGate() {
-      // Add vertical variance to make the game more challenging
-      const verticalVariance = getRandomVerticalVariance()
-
-      // Ensure the gate is still within playable bounds
-      const minTopHeight = 50
-      const maxTopHeight = GAME_HEIGHT - INITIAL_GATE_GAP - 100
-      let topHeight = Math.random() * (maxTopHeight - minTopHeight) + minTopHeight
-
-      // Apply vertical variance but ensure gate stays within bounds
-      topHeight += verticalVariance
-      topHeight = Math.max(minTopHeight, Math.min(maxTopHeight, topHeight))
-
-      // Determine if this should be a narrow gate (30% chance)
-      const isNarrowGate = Math.random() < 0.3
-      const baseGateGap = isNarrowGate ? NARROW_GATE_GAP : INITIAL_GATE_GAP
-
-      // Get a random token type different from the last one
-      const tokenType = getRandomTokenType()
-      lastTokenType = tokenType // Update the last token type
-
-      gates.push({
-        x: GAME_WIDTH,
-        topHeight,
-        hasPassed: false,
-        tokenType,
-        baseGateGap,
-        isFlashing: false,
-      })
+      // Update the mode's high score for the run's preset and its token records if beaten
+      setHighScores(saveHighScore(finalState.mode, finalState.score, finalState.baseRules))
+      setHighestTokenCounts(saveTokenRecords(finalState.mode, finalState.tokenCounts))
 
-      lastGateX = GAME_WIDTH
+      // Keep the run so it can be watched again
+      saveReplay(replay)
+      setRecentReplays(loadRecentReplays())
+      if (dailyRun) {
+        setDailyHistory(saveDailyRun(dailyRun.day, replay, dailyRun.ranked))
+      }
     }
 
-    // Initialize the first gate
-    initializeGate()
+    // Game over is handled here, where the run's inputs are at hand for its replay
+    const stopHandlingGameOver = gameEvents.on("game_over", () => handleGameOver(run.state))
 
-    // Game loop
+    // Game loop: run as many fixed steps as the elapsed time covers, then
+    // render interpolated between the last two steps
     const gameLoop = (timestamp: number) => {
-      // Clear canvas
-      ctx.clearRect(0, 0, GAME_WIDTH, GAME_HEIGHT)
-
-      // Process active effects
-      processEffects(timestamp)
-
-      // Draw static trading chart background
-      drawTradingChartBackground(ctx, isGoldMode)
+      const frameDelta = lastTimestamp === null ? 0 : Math.min(timestamp - lastTimestamp, MAX_FRAME_DELTA)
+      lastTimestamp = timestamp
+      run.accumulator += frameDelta
+
+      while (run.accumulator >= SIMULATION_STEP_MS && !run.state.isGameOver) {
+        run.accumulator -= SIMULATION_STEP_MS
+        run.previousState = run.state
+
+        // A controller, when there is one, plays instead of the player
+        const input = {
+          ...(run.controller ? getControllerInput(run.controller, run.state) : { bounce: bounceQueued }),
+          quit: run.quitQueued,
+        }
+        bounceQueued = false
+        run.quitQueued = false
+        if (input.bounce) {
+          run.inputs.push(run.state.tick + 1)
+        }
+        const result = stepSimulation(run.state, input)
+        run.state = result.state
+
+        advanceTrail(run.trail, run.state)
+
+        if (run.ghost) {
+          const ghost = run.ghost
+          ghost.previousState = ghost.state
+          if (!ghost.state.isGameOver) {
+            const ghostInput = getReplayInput(ghost.inputTicks, ghost.finalTick, ghost.state)
+            ghost.state = stepSimulation(ghost.state, ghostInput).state
+            advanceTrail(ghost.trail, ghost.state)
+          }
+        }
 
-      // Update line position
-      if (!solEffectActive) {
-        // Normal gravity if SOL effect is not active
-        lineVelocity += GRAVITY
+        for (const event of result.events) {
+          gameEvents.emit({ ...event, tick: run.state.tick })
+        }
       }
 
-      // Apply chaos mode if active
-      if (chaosMode && timestamp < chaosModeEndTime) {
-        // Apply random velocity changes
-        lineVelocity += (Math.random() - 0.5) * 2 // Random value between -1 and 1
-
-        // Add some visual indication of chaos
-        ctx.fillStyle = "rgba(255, 0, 0, 0.1)"
-        ctx.fillRect(0, 0, GAME_WIDTH, GAME_HEIGHT)
-      } else if (chaosMode && timestamp >= chaosModeEndTime) {
-        // End chaos mode
-        chaosMode = false
+      const alpha = run.state.isGameOver ? 1 : run.accumulator / SIMULATION_STEP_MS
+      let ghost: GhostView | null = null
+      if (run.ghost) {
+        ghost = { state: interpolateState(run.ghost.previousState, run.ghost.state, alpha), trail: run.ghost.trail }
+        setGhostLead(run.state.gatesPassed - run.ghost.state.gatesPassed)
       }
+      // Whole seconds, so the clock only re-renders when the second shown changes
+      const timeLeft = getTimeLeft(run.state)
+      setSecondsLeft(timeLeft === null ? null : Math.ceil(timeLeft / 1000))
+      renderFrame(ctx, interpolateState(run.previousState, run.state, alpha), run.trail, { highestTokenCounts, ghost })
 
-      lineY += lineVelocity
+      if (run.state.isGameOver) return
 
-      // Line changes color based on direction
-      if (lineVelocity > 0) {
-        isAscending = false
-      } else {
-        isAscending = true
-      }
-
-      // Shift all trail points to the left
-      for (let i = 0; i < LINE_X_POSITION; i++) {
-        trail[i] = trail[i + 1]
-      }
+      // Continue game loop
+      animationFrameId = requestAnimationFrame(gameLoop)
+    }
 
-      // Add the current position to the trail
-      trail[LINE_X_POSITION] = {
-        y: lineY,
-        isAscending,
-      }
+    // Start game loop
+    animationFrameId = requestAnimationFrame(gameLoop)
 
-      // Draw the trail - VERY EXPLICITLY
-      for (let x = 0; x < LINE_X_POSITION; x++) {
-        const point1 = trail[x]
-        const point2 = trail[x + 1]
-
-        if (point1 && point2) {
-          // Set color based on whether the line was ascending or descending
-          // If in gold mode, make the trail gold
-          // If SOL effect is active, make the trail purple
-          let trailColor = point2.isAscending ? "#26a69a" : "#ef5350"
-          if (isGoldMode) {
-            trailColor = "#FFD700"
-          } else if (solEffectActive) {
-            trailColor = "#9945FF" // Solana purple
-          }
+    // Cleanup
+    return () => {
+      cancelAnimationFrame(animationFrameId)
+      stopHandlingGameOver()
+      window.removeEventListener("keydown", handleKeyDown)
+      canvas.removeEventListener("click", handleClick)
+    }
+  }, [gameState, highestTokenCounts, dailyRun, campaignRun, gameEvents])
 
-          ctx.strokeStyle = trailColor
-          ctx.lineWidth = 3
+  // Escape or P toggles pause
+  useEffect(() => {
+    if (gameState !== GameState.PLAYING && gameState !== GameState.PAUSED) return
 
-          // Draw a line segment
-          ctx.beginPath()
-          ctx.moveTo(x, point1.y)
-          ctx.lineTo(x + 1, point2.y)
-          ctx.stroke()
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code === "Escape" || e.code === "KeyP") {
+        e.preventDefault()
+        if (gameState === GameState.PLAYING) {
+          handlePause()
+        } else if (resumeCountdown === null) {
+          handleResume()
+        } else {
+          // Pressing again during the countdown stays paused
+          setResumeCountdown(null)
         }
       }
+    }
 
-      // Check if we need to spawn a new gate (when the last gate has moved in by GATE_DISTANCE)
-      if (lastGateX <= GAME_WIDTH - GATE_DISTANCE) {
-        // Add vertical variance to make the game more challenging
-        const verticalVariance = getRandomVerticalVariance()
-
-        // Ensure the gate is still within playable bounds
-        const minTopHeight = 50
-        const maxTopHeight = GAME_HEIGHT - INITIAL_GATE_GAP - 100
-        let topHeight = Math.random() * (maxTopHeight - minTopHeight) + minTopHeight
-
-        // Apply vertical variance but ensure gate stays within bounds
-        topHeight += verticalVariance
-        topHeight = Math.max(minTopHeight, Math.min(maxTopHeight, topHeight))
-
-        // Determine if this should be a narrow gate (30% chance)
-        const isNarrowGate = Math.random() < 0.3
-        const baseGateGap = isNarrowGate ? NARROW_GATE_GAP : INITIAL_GATE_GAP
-
-        // Get a random token type different from the last one
-        const tokenType = getRandomTokenType()
-        lastTokenType = tokenType // Update the last token type
-
-        gates.push({
-          x: GAME_WIDTH,
-          topHeight,
-          hasPassed: false,
-          tokenType,
-          baseGateGap,
-          isFlashing: false,
-        })
-
-        lastGateX = GAME_WIDTH
-      }
-
-      // Update and draw gates
-      gates = gates.filter((gate) => {
-        gate.x -= currentSpeed
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [gameState, resumeCountdown])
 
-        // Update the last gate position if this is the rightmost gate
-        if (gate.x > lastGateX - GATE_WIDTH) {
-          lastGateX = gate.x
-        }
+  // Auto-pause when the tab is hidden or the window loses focus
+  useEffect(() => {
+    if (gameState !== GameState.PLAYING && gameState !== GameState.PAUSED) return
 
-        // Update flashing state if needed
-        if (flashingGates) {
-          gate.isFlashing = Math.floor(timestamp / 200) % 2 === 0 // Flash every 200ms
-        } else {
-          gate.isFlashing = false
-        }
+    const handleFocusLost = () => {
+      if (document.visibilityState === "hidden" || !document.hasFocus()) {
+        setGameState((current) => (current === GameState.PLAYING ? GameState.PAUSED : current))
+        setResumeCountdown(null)
+      }
+    }
 
-        // Calculate actual gate gap based on effects
-        let actualGateGap = gate.baseGateGap
-        if (btcEffectActive) {
-          actualGateGap = gate.baseGateGap * (1 + GATE_GAP_INCREASE_PERCENT / 100)
-        }
+    document.addEventListener("visibilitychange", handleFocusLost)
+    window.addEventListener("blur", handleFocusLost)
+    return () => {
+      document.removeEventListener("visibilitychange", handleFocusLost)
+      window.removeEventListener("blur", handleFocusLost)
+    }
+  }, [gameState])
 
-        // Check if line is currently interacting with this gate
-        const gateLeftX = gate.x
-        const gateRightX = gate.x + GATE_WIDTH
-
-        // Check if any part of the gate overlaps with the line's x position
-        if (gateLeftX <= LINE_X_POSITION && gateRightX >= LINE_X_POSITION) {
-          // Check collision with top and bottom gates
-          let collision = false
-
-          // If SOL effect is active, no collision
-          if (!solEffectActive) {
-            // Check if the current pencil tip collides with gates
-            // Top gate collision
-            if (lineY <= gate.topHeight) {
-              collision = true
-            }
-
-            // Bottom gate collision
-            if (lineY >= gate.topHeight + actualGateGap) {
-              collision = true
-            }
-          }
+  // 3-2-1 countdown before play resumes
+  useEffect(() => {
+    if (resumeCountdown === null) return
 
-          if (collision) {
-            setGameState(GameState.GAME_OVER)
-            // Update high score if current score is higher
-            if (currentScore > highScore) {
-              setHighScore(currentScore)
-              localStorage.setItem("btcGameHighScore", currentScore.toString())
-            }
-
-            // Update highest token counts if current counts are higher
-            const newHighestCounts = { ...highestTokenCounts }
-            let countsUpdated = false
-
-            Object.keys(tokenCountsRef.current).forEach((token) => {
-              const tokenType = token as TokenType
-              if (tokenCountsRef.current[tokenType] > newHighestCounts[tokenType]) {
-                newHighestCounts[tokenType] = tokenCountsRef.current[tokenType]
-                countsUpdated = true
-              }
-            })
-
-            if (countsUpdated) {
-              setHighestTokenCounts(newHighestCounts)
-              localStorage.setItem("btcGameHighestTokenCounts", JSON.stringify(newHighestCounts))
-            }
-
-            // Sync token counts with state before game over
-            setTokenCounts({ ...tokenCountsRef.current })
-            return false
-          }
+    const timeoutId = window.setTimeout(() => {
+      if (resumeCountdown <= 1) {
+        setResumeCountdown(null)
+        setGameState(GameState.PLAYING)
+      } else {
+        setResumeCountdown(resumeCountdown - 1)
+      }
+    }, 1000)
 
-          // Check if token was collected
-          if (gate.tokenType !== TokenType.NONE) {
-            const tokenY = gate.topHeight + actualGateGap / 2
-            if (Math.abs(lineY - tokenY) < TOKEN_COLLECTION_RADIUS) {
-              // Apply token effect
-              applyTokenEffect(gate.tokenType, timestamp)
-
-              // Trigger screen flash
-              screenFlashTime = timestamp
-
-              // Update token count in ref
-              const tokenType = gate.tokenType
-              tokenCountsRef.current = {
-                ...tokenCountsRef.current,
-                [tokenType]: tokenCountsRef.current[tokenType] + 1,
-              }
-
-              // Log token collection for debugging
-              console.log(`Collected ${gate.tokenType}, count: ${tokenCountsRef.current[tokenType]}`)
-
-              // Update token counts in state immediately
-              setTokenCounts((prevCounts) => ({
-                ...prevCounts,
-                [tokenType]: prevCounts[tokenType] + 1,
-              }))
-
-              // If it's BCH, activate chaos mode
-              if (gate.tokenType === TokenType.BCH) {
-                chaosMode = true
-                chaosModeEndTime = timestamp + BCH_CHAOS_DURATION
-              }
-
-              // Remove the token
-              gate.tokenType = TokenType.NONE
-            }
-          }
-        }
+    return () => window.clearTimeout(timeoutId)
+  }, [resumeCountdown])
 
-        // Check if gate has been passed
-        if (!gate.hasPassed && gate.x + GATE_WIDTH < LINE_X_POSITION) {
-          gate.hasPassed = true
-          gatesPassed++
-          currentScore = gatesPassed
-          setScore(currentScore) // Update score in state immediately
-
-          // Check if we need to increase difficulty
-          if (gatesPassed % DIFFICULTY_GATE_THRESHOLD === 0) {
-            difficultyLevel++
-            baseSpeed = GATE_SPEED * (1 + (difficultyLevel - 1) * DIFFICULTY_INCREASE)
-            console.log(`Difficulty increased to level ${difficultyLevel}, speed: ${baseSpeed.toFixed(2)}`)
-          }
-        }
+  const handlePause = () => {
+    setGameState(GameState.PAUSED)
+    setResumeCountdown(null)
+  }
 
-        // Draw gates with the actual gap
-        if (gate.x + GATE_WIDTH > 0) {
-          drawGate(ctx, gate, actualGateGap, isGoldMode, solEffectActive)
+  const handleResume = () => {
+    setResumeCountdown(RESUME_COUNTDOWN_SECONDS)
+  }
 
-          // Draw token if this gate has one
-          if (gate.tokenType !== TokenType.NONE) {
-            const tokenY = gate.topHeight + actualGateGap / 2
-            drawToken(ctx, gate.x + GATE_WIDTH / 2, tokenY, gate.tokenType)
-          }
+  // Ending a run goes through the simulation like any other input, so it lands in the replay
+  const handleEndRun = () => {
+    if (runRef.current) runRef.current.quitQueued = true
+    setResumeCountdown(null)
+    setGameState(GameState.PLAYING)
+  }
 
-          return true
-        }
+  // Replay playback loop: re-simulates the recorded run and renders it
+  useEffect(() => {
+    if (gameState !== GameState.REPLAY || !activeReplay) return
 
-        return false
-      })
+    const canvas = canvasRef.current
+    if (!canvas) return
 
-      // Draw the current position indicator (the rocket)
-      drawCurrentPosition(ctx, lineY, isAscending, isGoldMode, solEffectActive)
+    const ctx = canvas.getContext("2d")
+    if (!ctx) return
 
-      // Draw token counters
-      drawTokenCounters(ctx, tokenCountsRef.current, highestTokenCounts)
+    const replay = activeReplay
+    const controls = replayControlRef.current
+    const inputTicks = new Set(replay.inputs)
+    let animationFrameId: number
+    let state: SimulationState
+    let previousState: SimulationState
+    let trail = createTrail(GAME_HEIGHT / 2)
+    let lastTimestamp: number | null = null
+    let lastControlsUpdate: number | null = null
+    let accumulator = 0
+
+    // Jump to a tick by re-simulating from the seed, rebuilding the trail on the way
+    const seek = (tick: number) => {
+      trail = createTrail(GAME_HEIGHT / 2)
+      state = simulateReplay(replay, tick, (result) => advanceTrail(trail, result.state))
+      previousState = state
+      accumulator = 0
+    }
 
-      // Draw BUY/SELL indicators
-      drawBuySellIndicators(ctx, isAscending)
+    seek(controls.seekTo ?? 0)
+    controls.seekTo = null
 
-      // Draw screen flash if active
-      if (timestamp - screenFlashTime < SCREEN_FLASH_DURATION) {
-        const flashProgress = (timestamp - screenFlashTime) / SCREEN_FLASH_DURATION
-        const opacity = 1 - flashProgress
-        ctx.fillStyle = `rgba(255, 255, 255, ${opacity * 0.7})`
-        ctx.fillRect(0, 0, GAME_WIDTH, GAME_HEIGHT)
+    const replayLoop = (timestamp: number) => {
+      if (controls.seekTo !== null) {
+        seek(controls.seekTo)
+        controls.seekTo = null
       }
 
-      // Check game over conditions
-      if (lineY < 0 || lineY > GAME_HEIGHT) {
-        setGameState(GameState.GAME_OVER)
-        // Update high score if current score is higher
-        if (currentScore > highScore) {
-          setHighScore(currentScore)
-          localStorage.setItem("btcGameHighScore", currentScore.toString())
-        }
-
-        // Update highest token counts if current counts are higher
-        const newHighestCounts = { ...highestTokenCounts }
-        let countsUpdated = false
-
-        Object.keys(tokenCountsRef.current).forEach((token) => {
-          const tokenType = token as TokenType
-          if (tokenCountsRef.current[tokenType] > newHighestCounts[tokenType]) {
-            newHighestCounts[tokenType] = tokenCountsRef.current[tokenType]
-            countsUpdated = true
-          }
-        })
-
-        if (countsUpdated) {
-          setHighestTokenCounts(newHighestCounts)
-          localStorage.setItem("btcGameHighestTokenCounts", JSON.stringify(newHighestCounts))
-        }
+      const frameDelta = lastTimestamp === null ? 0 : Math.min(timestamp - lastTimestamp, MAX_FRAME_DELTA)
+      lastTimestamp = timestamp
+      if (!controls.isPaused) {
+        accumulator += frameDelta * controls.speed
+      }
 
-        // Sync token counts with state before game over
-        setTokenCounts({ ...tokenCountsRef.current })
-        return
+      while (accumulator >= SIMULATION_STEP_MS && state.tick < replay.finalTick && !state.isGameOver) {
+        accumulator -= SIMULATION_STEP_MS
+        previousState = state
+        state = stepSimulation(state, getReplayInput(inputTicks, replay.finalTick, state)).state
+        advanceTrail(trail, state)
       }
 
-      // Continue game loop
-      animationFrameId = requestAnimationFrame(gameLoop)
+      const isFinished = state.tick >= replay.finalTick || state.isGameOver
+      const alpha = isFinished ? 1 : accumulator / SIMULATION_STEP_MS
+      renderFrame(ctx, interpolateState(previousState, state, alpha), trail, { highestTokenCounts })
 
-      // Function to process active effects
-      function processEffects(timestamp: number) {
-        // Remove expired effects
-        activeEffects = activeEffects.filter((effect) => effect.endTime > timestamp)
-
-        // Reset effect states
-        currentSpeed = baseSpeed
-        isGoldMode = false
-        flashingGates = false
-        btcEffectActive = false
-        solEffectActive = false
-
-        // Apply active effects
-        for (const effect of activeEffects) {
-          switch (effect.type) {
-            case TokenType.ETH:
-              currentSpeed = baseSpeed * 0.5 // 50% slower
-              break
-            case TokenType.TAO:
-              flashingGates = true
-              break
-            case TokenType.HBAR:
-              isGoldMode = true
-              break
-            case TokenType.BTC:
-              btcEffectActive = true // Set BTC effect active
-              currentSpeed = baseSpeed * BTC_SPEED_BOOST // 10% faster with BTC
-              break
-            case TokenType.SOL:
-              solEffectActive = true // Set SOL effect active
-              currentSpeed = baseSpeed * SOL_SPEED_BOOST // 100% faster with SOL
-              // Make the rocket go straight (zero gravity)
-              lineVelocity = 0
-              break
-          }
-        }
+      if (isFinished || lastControlsUpdate === null || timestamp - lastControlsUpdate >= REPLAY_CONTROLS_UPDATE_MS) {
+        lastControlsUpdate = timestamp
+        setReplayTick(state.tick)
+        setReplayScore(state.score)
       }
-
-      // Function to apply token effects
-      function applyTokenEffect(tokenType: TokenType, timestamp: number) {
-        switch (tokenType) {
-          case TokenType.BTC:
-            // Bitcoin: Wider gates for exactly 10 seconds
-            activeEffects.push({
-              type: TokenType.BTC,
-              endTime: timestamp + 10000, // Fixed 10 seconds
-            })
-            break
-          case TokenType.ETH:
-            // ETH: Slow game for 5 seconds
-            activeEffects.push({
-              type: TokenType.ETH,
-              endTime: timestamp + 5000,
-            })
-            break
-          case TokenType.TAO:
-            // TAO: Flashing gates for 5 seconds
-            activeEffects.push({
-              type: TokenType.TAO,
-              endTime: timestamp + 5000,
-            })
-            break
-          case TokenType.HBAR:
-            // HBAR: Gold mode for 10 seconds
-            activeEffects.push({
-              type: TokenType.HBAR,
-              endTime: timestamp + 10000,
-            })
-            break
-          case TokenType.BCH:
-            // BCH: Chaos mode for 3 seconds (handled in main code)
-            break
-          case TokenType.SOL:
-            // SOL: Straight line and transparent gates for 5 seconds
-            activeEffects.push({
-              type: TokenType.SOL,
-              endTime: timestamp + SOL_EFFECT_DURATION,
-            })
-            break
-        }
+      if (isFinished && !controls.isPaused) {
+        controls.isPaused = true
+        setReplayPaused(true)
       }
+
+      animationFrameId = requestAnimationFrame(replayLoop)
     }
 
-    // Start game loop
-    animationFrameId = requestAnimationFrame(gameLoop)
+    animationFrameId = requestAnimationFrame(replayLoop)
 
-    // Cleanup
     return () => {
       cancelAnimationFrame(animationFrameId)
-      window.removeEventListener("keydown", handleKeyDown)
-      canvas.removeEventListener("click", handleClick)
-    }
-  }, [gameState, highScore, highestTokenCounts])
-
-  // Drawing functions
-  const drawTradingChartBackground = (ctx: CanvasRenderingContext2D, isGoldMode: boolean) => {
-    // Draw white background (changed from dark)
-    ctx.fillStyle = isGoldMode ? "#fffbeb" : "#ffffff"
-    ctx.fillRect(0, 0, GAME_WIDTH, GAME_HEIGHT)
-
-    // Draw grid lines with lighter colors for white background
-    ctx.strokeStyle = isGoldMode ? "#e6d58d" : "#e0e0e0"
-    ctx.lineWidth = 1
-
-    // Horizontal grid lines
-    for (let y = 0; y < GAME_HEIGHT; y += 50) {
-      ctx.beginPath()
-      ctx.moveTo(0, y)
-      ctx.lineTo(GAME_WIDTH, y)
-      ctx.stroke()
     }
+  }, [gameState, activeReplay, highestTokenCounts])
+
+  const handleWatchReplay = (replay: Replay) => {
+    replayControlRef.current = { isPaused: false, speed: replaySpeed, seekTo: 0 }
+    setActiveReplay(replay)
+    setReplayTick(0)
+    setReplayScore(0)
+    setReplayPaused(false)
+    setGameState(GameState.REPLAY)
+  }
 
-    // Vertical grid lines
-    for (let x = 0; x < GAME_WIDTH; x += 100) {
-      ctx.beginPath()
-      ctx.moveTo(x, 0)
-      ctx.lineTo(x, GAME_HEIGHT)
-      ctx.stroke()
-    }
+  const handleReplaySeek = (tick: number) => {
+    replayControlRef.current.seekTo = tick
+    setReplayTick(tick)
+  }
 
-    // Draw static price indicators on the y-axis with darker text for white background
-    ctx.fillStyle = isGoldMode ? "#b59a00" : "#666666"
-    ctx.font = "12px Arial"
-    for (let y = 50; y < GAME_HEIGHT; y += 50) {
-      const price = 50000 - (y / GAME_HEIGHT) * 40000
-      ctx.fillText(`$${Math.round(price).toLocaleString()}`, 5, y - 5)
+  const handleReplayTogglePause = () => {
+    const controls = replayControlRef.current
+    // Pressing play at the end starts the replay over
+    if (controls.isPaused && activeReplay && replayTick >= activeReplay.finalTick) {
+      controls.seekTo = 0
     }
+    controls.isPaused = !controls.isPaused
+    setReplayPaused(controls.isPaused)
   }
 
-  const drawCurrentPosition = (
-    ctx: CanvasRenderingContext2D,
-    y: number,
-    isAscending: boolean,
-    isGoldMode: boolean,
-    solEffectActive: boolean,
-  ) => {
-    // Draw the rocket emoji instead of a circle
-    ctx.font = "24px Arial"
-    ctx.textAlign = "center"
-    ctx.textBaseline = "middle"
-
-    // Determine the rotation based on direction
-    // If SOL effect is active, keep rocket straight
-    const rotation = solEffectActive ? 0 : isAscending ? -0.3 : 0.3
-
-    // Save the current context state
-    ctx.save()
-
-    // Translate to the rocket position, rotate, then draw
-    ctx.translate(LINE_X_POSITION, y)
-    ctx.rotate(rotation)
-
-    // Draw the rocket emoji
-    ctx.fillText("🚀", 0, 0)
-
-    // If SOL effect is active, add a purple glow
-    if (solEffectActive) {
-      ctx.shadowColor = "#9945FF"
-      ctx.shadowBlur = 10
-      ctx.fillText("🚀", 0, 0)
-      ctx.shadowBlur = 0
-    }
+  const handleReplaySpeedChange = (speed: number) => {
+    replayControlRef.current.speed = speed
+    setReplaySpeed(speed)
+  }
 
-    // Restore the context to its original state
-    ctx.restore()
+  const handleScoreSubmitted = (entry: RankedScoreEntry) => {
+    saveSettings({ lastScoreId: entry.id })
+    setLastScoreId(entry.id)
   }
 
-  const drawBuySellIndicators = (ctx: CanvasRenderingContext2D, isAscending: boolean) => {
-    const boxWidth = 60
-    const boxHeight = 40
-    const margin = 20
-    const bottomMargin = 80
-
-    // Draw BUY box (green)
-    const buyBoxX = margin
-    const buyBoxY = GAME_HEIGHT - bottomMargin
-
-    // Determine if BUY box should be illuminated
-    const buyBoxColor = isAscending ? "#26a69a" : "#a8d5d1" // Bright green when active, pale green when inactive
-
-    ctx.fillStyle = buyBoxColor
-    ctx.fillRect(buyBoxX, buyBoxY, boxWidth, boxHeight)
-    ctx.strokeStyle = "#000000"
-    ctx.lineWidth = 2
-    ctx.strokeRect(buyBoxX, buyBoxY, boxWidth, boxHeight)
-
-    // Draw BUY text
-    ctx.fillStyle = "#ffffff"
-    ctx.font = "bold 16px Arial"
-    ctx.textAlign = "center"
-    ctx.textBaseline = "middle"
-    ctx.fillText("BUY", buyBoxX + boxWidth / 2, buyBoxY + boxHeight / 2)
-
-    // Draw SELL box (red)
-    const sellBoxX = buyBoxX + boxWidth + margin
-    const sellBoxY = buyBoxY
-
-    // Determine if SELL box should be illuminated
-    const sellBoxColor = !isAscending ? "#ef5350" : "#f5b5b3" // Bright red when active, pale red when inactive
-
-    ctx.fillStyle = sellBoxColor
-    ctx.fillRect(sellBoxX, sellBoxY, boxWidth, boxHeight)
-    ctx.strokeStyle = "#000000"
-    ctx.lineWidth = 2
-    ctx.strokeRect(sellBoxX, sellBoxY, boxWidth, boxHeight)
-
-    // Draw SELL text
-    ctx.fillStyle = "#ffffff"
-    ctx.font = "bold 16px Arial"
-    ctx.textAlign = "center"
-    ctx.textBaseline = "middle"
-    ctx.fillText("SELL", sellBoxX + boxWidth / 2, sellBoxY + boxHeight / 2)
+  const handleExitReplay = () => {
+    setActiveReplay(null)
+    setGameState(lastReplay ? GameState.GAME_OVER : GameState.START)
   }
 
-  const drawGate = (
-    ctx: CanvasRenderingContext2D,
-    gate: Gate,
-    actualGateGap: number,
-    isGoldMode: boolean,
-    solEffectActive: boolean,
-  ) => {
-    // Determine colors based on mode and flashing
-    let topColor = "#ef5350"
-    let bottomColor = "#26a69a"
-
-    if (isGoldMode) {
-      topColor = "#FFD700"
-      bottomColor = "#FFD700"
-    } else if (gate.isFlashing) {
-      // Invert colors when flashing
-      topColor = "#26a69a"
-      bottomColor = "#ef5350"
-    }
+  const handlePresetChange = (value: DifficultyPreset) => {
+    saveSettings({ preset: value })
+    setPreset(value)
+    setGhostChoice(BEST_GHOST)
+  }
 
-    // Set transparency if SOL effect is active
-    const alpha = solEffectActive ? 0.3 : 1.0
-    const topColorWithAlpha = solEffectActive ? topColor + "4D" : topColor // 30% opacity
-    const bottomColorWithAlpha = solEffectActive ? bottomColor + "4D" : bottomColor // 30% opacity
+  const handleModeChange = (value: GameMode) => {
+    saveSettings({ mode: value })
+    setMode(value)
+    setGhostChoice(BEST_GHOST)
+  }
 
-    // Draw top gate (bear)
-    ctx.fillStyle = topColorWithAlpha
-    ctx.fillRect(gate.x, 0, GATE_WIDTH, gate.topHeight)
+  const startRun = (runSeed: number, options: RunOptions = {}) => {
+    runRef.current = createLiveRun(runSeed, options)
+    setRunPreset(getRulesPreset(options.rules ?? DEFAULT_RULES) ?? DEFAULT_PRESET)
+    setRunMode(options.mode ?? DEFAULT_MODE)
+    setSecondsLeft(null)
+    setRaceGhost(options.ghost ?? null)
+    setGhostLead(0)
+    setDailyRun(options.daily ?? null)
+    setIsMarketRun(Boolean(options.market))
+    setIsLevelRun(Boolean(options.level))
+    setCampaignRun(options.campaign ?? null)
+    setCampaignStars([])
+    setChallengeRun(options.challenge ?? null)
+    setIsBotRun(Boolean(options.controller))
+    setResumeCountdown(null)
+    setSeed(runSeed)
+    setGameState(GameState.PLAYING)
+    const { state } = runRef.current
+    gameEvents.emit({
+      type: "run_started",
+      tick: state.tick,
+      kind: getRunKind(options),
+      seed: runSeed,
+      mode: state.mode,
+      rules: state.baseRules,
+    })
+  }
+
+  // Start game handler
+  const handleStartGame = () => {
+    // Racing a ghost means flying the exact course it flew, under the rules it flew it with
+    const ghost = resolveGhostReplay(ghostChoice, bestReplay, recentReplays)
+    if (ghost) startRun(ghost.seed, { ghost, rules: getReplayRules(ghost), mode: getReplayMode(ghost) })
+    else startRun(createRandomSeed(), { rules: PRESET_RULES[preset], mode })
+  }
 
-    // Draw bear icon on top gate
-    ctx.fillStyle = solEffectActive ? "rgba(255, 255, 255, 0.3)" : "#ffffff"
-    ctx.font = "20px Arial"
-    ctx.fillText("🐻", gate.x + GATE_WIDTH / 2 - 10, gate.topHeight - 20)
+  const handleStartDaily = (day: string, ranked: boolean) => {
+    // Only today's course can be ranked, and only once. Everyone flies it on Normal.
+    const isRanked = ranked && day === getDayKey() && !hasRankedAttempt(dailyHistory, day)
+    if (isRanked) setDailyHistory(startRankedDailyRun(day))
+    startRun(getDailySeed(day), { daily: { day, ranked: isRanked }, rules: DEFAULT_RULES })
+  }
 
-    // Draw bottom gate (bull)
-    ctx.fillStyle = bottomColorWithAlpha
-    ctx.fillRect(gate.x, gate.topHeight + actualGateGap, GATE_WIDTH, GAME_HEIGHT - (gate.topHeight + actualGateGap))
+  // Market runs fly the loaded candles; the seed only decides where tokens appear
+  const handleStartMarket = () => {
+    if (marketCourse) startRun(createRandomSeed(), { market: marketCourse, rules: PRESET_RULES[preset] })
+  }
 
-    // Draw bull icon on bottom gate
-    ctx.fillStyle = solEffectActive ? "rgba(255, 255, 255, 0.3)" : "#ffffff"
-    ctx.font = "20px Arial"
-    ctx.fillText("🐂", gate.x + GATE_WIDTH / 2 - 10, gate.topHeight + actualGateGap + 30)
+  // Levels are flown exactly as designed, gaps scaled to the picked preset
+  const handleStartLevel = () => {
+    if (levelCourse) startRun(createRandomSeed(), { level: levelCourse, rules: PRESET_RULES[preset] })
+  }
 
-    // Draw candle-like appearance for bottom gate
-    ctx.fillStyle = bottomColorWithAlpha
-    ctx.fillRect(gate.x + GATE_WIDTH / 2 - 5, gate.topHeight + actualGateGap - 20, 10, 20)
+  // Campaign levels are always flown on Normal so their stars mean the same for everyone
+  const handleStartCampaign = (index: number) => {
+    const { level: campaignLevel } = CAMPAIGN_LEVELS[index]
+    setLevelCourse(campaignLevel)
+    startRun(createRandomSeed(), { level: campaignLevel, rules: CAMPAIGN_RULES, campaign: index })
   }
 
-  const drawToken = (ctx: CanvasRenderingContext2D, x: number, y: number, tokenType: TokenType) => {
-    switch (tokenType) {
-      case TokenType.BTC:
-        // Draw Bitcoin
-        ctx.fillStyle = "#f7931a"
-        ctx.beginPath()
-        ctx.arc(x, y, 25, 0, Math.PI * 2)
-        ctx.fill()
-
-        // Draw Bitcoin symbol
-        ctx.fillStyle = "#ffffff"
-        ctx.font = "30px Arial"
-        ctx.fillText("₿", x - 10, y + 10)
-        break
-
-      case TokenType.ETH:
-        // Draw Ethereum
-        ctx.fillStyle = "#627eea"
-        ctx.beginPath()
-        ctx.arc(x, y, 25, 0, Math.PI * 2)
-        ctx.fill()
-
-        // Draw Ethereum symbol
-        ctx.fillStyle = "#ffffff"
-        ctx.font = "30px Arial"
-        ctx.fillText("Ξ", x - 10, y + 10)
-        break
-
-      case TokenType.TAO:
-        // Draw TAO (custom icon)
-        ctx.fillStyle = "#1a1a1a"
-        ctx.beginPath()
-        ctx.arc(x, y, 25, 0, Math.PI * 2)
-        ctx.fill()
-
-        // Draw TAO symbol (custom hexagon with T)
-        ctx.fillStyle = "#ffffff"
-
-        // Draw hexagon
-        const hexSize = 15
-        ctx.beginPath()
-        for (let i = 0; i < 6; i++) {
-          const angle = (Math.PI / 3) * i
-          const hx = x + hexSize * Math.cos(angle)
-          const hy = y + hexSize * Math.sin(angle)
-          if (i === 0) ctx.moveTo(hx, hy)
-          else ctx.lineTo(hx, hy)
-        }
-        ctx.closePath()
-        ctx.strokeStyle = "#ffffff"
-        ctx.lineWidth = 2
-        ctx.stroke()
-
-        // Draw T
-        ctx.fillRect(x - 8, y - 8, 16, 3)
-        ctx.fillRect(x, y - 8, 3, 16)
-        break
-
-      case TokenType.BCH:
-        // Draw Bitcoin Cash (improved logo)
-        ctx.fillStyle = "#8dc351"
-        ctx.beginPath()
-        ctx.arc(x, y, 25, 0, Math.PI * 2)
-        ctx.fill()
-
-        // Draw BCH symbol (more accurate to actual logo)
-        ctx.fillStyle = "#ffffff"
-
-        // Save context for rotation
-        ctx.save()
-        ctx.translate(x, y)
-        ctx.rotate(Math.PI / 12) // Slight rotation for the BCH logo
-
-        // Draw the B shape
-        ctx.beginPath()
-        ctx.moveTo(-10, -12)
-        ctx.lineTo(-10, 12)
-        ctx.lineWidth = 3
-        ctx.strokeStyle = "#ffffff"
-        ctx.stroke()
-
-        // Draw the two horizontal lines
-        ctx.beginPath()
-        ctx.moveTo(-10, -6)
-        ctx.lineTo(10, -6)
-        ctx.stroke()
-
-        ctx.beginPath()
-        ctx.moveTo(-10, 6)
-        ctx.lineTo(10, 6)
-        ctx.stroke()
-
-        // Draw the curved parts of B
-        ctx.beginPath()
-        ctx.arc(-5, -9, 5, Math.PI * 1.5, Math.PI * 0.5, false)
-        ctx.stroke()
-
-        ctx.beginPath()
-        ctx.arc(-5, 3, 5, Math.PI * 1.5, Math.PI * 0.5, false)
-        ctx.stroke()
-
-        // Restore context
-        ctx.restore()
-        break
-
-      case TokenType.HBAR:
-        // Draw HBAR (improved logo)
-        ctx.fillStyle = "#222222" // Hedera uses a dark background
-        ctx.beginPath()
-        ctx.arc(x, y, 25, 0, Math.PI * 2)
-        ctx.fill()
-
-        // Draw HBAR symbol (more accurate to actual logo)
-        ctx.strokeStyle = "#00baff"
-        ctx.lineWidth = 3
-
-        // Draw the stylized 'h' of Hedera
-        ctx.beginPath()
-        // Left vertical line
-        ctx.moveTo(x - 10, y - 10)
-        ctx.lineTo(x - 10, y + 10)
-
-        // Right vertical line
-        ctx.moveTo(x + 10, y - 10)
-        ctx.lineTo(x + 10, y + 10)
-
-        // Horizontal connecting line
-        ctx.moveTo(x - 10, y)
-        ctx.lineTo(x + 10, y)
-
-        // Horizontal bar through (distinctive feature of HBAR logo)
-        ctx.moveTo(x - 15, y - 5)
-        ctx.lineTo(x + 15, y - 5)
-
-        ctx.stroke()
-        break
-
-      case TokenType.SOL:
-        // Draw Solana
-        ctx.fillStyle = "#9945FF" // Solana purple
-        ctx.beginPath()
-        ctx.arc(x, y, 25, 0, Math.PI * 2)
-        ctx.fill()
-
-        // Draw Solana symbol (simplified 'S')
-        ctx.fillStyle = "#ffffff"
-        ctx.font = "bold 30px Arial"
-        ctx.fillText("S", x - 9, y + 10)
-
-        // Add a glow effect
-        ctx.shadowColor = "#9945FF"
-        ctx.shadowBlur = 15
-        ctx.beginPath()
-        ctx.arc(x, y, 27, 0, Math.PI * 2)
-        ctx.strokeStyle = "#ffffff"
-        ctx.lineWidth = 2
-        ctx.stroke()
-        ctx.shadowBlur = 0
-        break
+  // A linked course is flown exactly as shared: same seed or level, preset and mode
+  const handleStartChallenge = (course: SharedCourse) => {
+    const rules = PRESET_RULES[course.preset]
+    if (course.kind === "level") {
+      setLevelCourse(course.level)
+      startRun(createRandomSeed(), { level: course.level, rules, challenge: course })
+    } else {
+      startRun(course.seed, { rules, mode: course.mode, challenge: course })
     }
   }
 
-  const drawTokenCounters = (ctx: CanvasRenderingContext2D, counts: TokenCounts, highestCounts: TokenCounts) => {
-    // Draw token counters horizontally in the top right corner
-    const startY = 30
-    const iconSize = 15
-    const spacing = 60 // Horizontal spacing between icons
-    const textOffset = 25 // Space between icon and text (increased for better visibility)
-
-    ctx.font = "bold 16px Arial" // Make font bold for better visibility
-    ctx.textAlign = "left"
-
-    // Calculate starting X position to align right
-    let startX = GAME_WIDTH - 20 - spacing * 5 // 20px padding from right edge, now with 6 tokens
-
-    // BTC counter
-    ctx.fillStyle = "#f7931a"
-    ctx.beginPath()
-    ctx.arc(startX, startY, iconSize, 0, Math.PI * 2)
-    ctx.fill()
-    ctx.fillStyle = "#ffffff"
-    ctx.fillText("₿", startX - 5, startY + 5)
-
-    // Draw count with background for better visibility
-    ctx.fillStyle = "rgba(255, 255, 255, 0.7)"
-    ctx.fillRect(startX + 15, startY - 10, 40, 20)
-    ctx.fillStyle = "#000000" // Black text
-    ctx.fillText(`${counts[TokenType.BTC]}/${highestCounts[TokenType.BTC]}`, startX + textOffset, startY + 5)
-
-    // ETH counter
-    startX += spacing
-    ctx.fillStyle = "#627eea"
-    ctx.beginPath()
-    ctx.arc(startX, startY, iconSize, 0, Math.PI * 2)
-    ctx.fill()
-    ctx.fillStyle = "#ffffff"
-    ctx.fillText("Ξ", startX - 5, startY + 5)
-
-    // Draw count with background
-    ctx.fillStyle = "rgba(255, 255, 255, 0.7)"
-    ctx.fillRect(startX + 15, startY - 10, 40, 20)
-    ctx.fillStyle = "#000000"
-    ctx.fillText(`${counts[TokenType.ETH]}/${highestCounts[TokenType.ETH]}`, startX + textOffset, startY + 5)
-
-    // TAO counter
-    startX += spacing
-    ctx.fillStyle = "#1a1a1a"
-    ctx.beginPath()
-    ctx.arc(startX, startY, iconSize, 0, Math.PI * 2)
-    ctx.fill()
-
-    // Draw TAO hexagon icon
-    ctx.strokeStyle = "#ffffff"
-    ctx.lineWidth = 1.5
-    const hexSize = 7
-    ctx.beginPath()
-    for (let i = 0; i < 6; i++) {
-      const angle = (Math.PI / 3) * i
-      const hx = startX + hexSize * Math.cos(angle)
-      const hy = startY + hexSize * Math.sin(angle)
-      if (i === 0) ctx.moveTo(hx, hy)
-      else ctx.lineTo(hx, hy)
-    }
-    ctx.closePath()
-    ctx.stroke()
-
-    // Draw T
-    ctx.fillStyle = "#ffffff"
-    ctx.fillRect(startX - 4, startY - 4, 8, 1.5)
-    ctx.fillRect(startX, startY - 4, 1.5, 8)
-
-    // Draw count with background
-    ctx.fillStyle = "rgba(255, 255, 255, 0.7)"
-    ctx.fillRect(startX + 15, startY - 10, 40, 20)
-    ctx.fillStyle = "#000000"
-    ctx.fillText(`${counts[TokenType.TAO]}/${highestCounts[TokenType.TAO]}`, startX + textOffset, startY + 5)
-
-    // BCH counter
-    startX += spacing
-    ctx.fillStyle = "#8dc351"
-    ctx.beginPath()
-    ctx.arc(startX, startY, iconSize, 0, Math.PI * 2)
-    ctx.fill()
-
-    // Draw BCH symbol
-    ctx.fillStyle = "#ffffff"
-    ctx.save()
-    ctx.translate(startX, startY)
-    ctx.rotate(Math.PI / 12)
-
-    // Draw the B shape
-    ctx.beginPath()
-    ctx.moveTo(-5, -6)
-    ctx.lineTo(-5, 6)
-    ctx.lineWidth = 1.5
-    ctx.strokeStyle = "#ffffff"
-    ctx.stroke()
-
-    // Draw the two horizontal lines
-    ctx.beginPath()
-    ctx.moveTo(-5, -3)
-    ctx.lineTo(5, -3)
-    ctx.stroke()
-
-    ctx.beginPath()
-    ctx.moveTo(-5, 3)
-    ctx.lineTo(5, 3)
-    ctx.stroke()
-
-    // Draw the curved parts of B
-    ctx.beginPath()
-    ctx.arc(-2.5, -4.5, 2.5, Math.PI * 1.5, Math.PI * 0.5, false)
-    ctx.stroke()
-
-    ctx.beginPath()
-    ctx.arc(-2.5, 1.5, 2.5, Math.PI * 1.5, Math.PI * 0.5, false)
-    ctx.stroke()
-
-    ctx.restore()
-
-    // Draw count with background
-    ctx.fillStyle = "rgba(255, 255, 255, 0.7)"
-    ctx.fillRect(startX + 15, startY - 10, 40, 20)
-    ctx.fillStyle = "#000000"
-    ctx.fillText(`${counts[TokenType.BCH]}/${highestCounts[TokenType.BCH]}`, startX + textOffset, startY + 5)
-
-    // HBAR counter
-    startX += spacing
-    ctx.fillStyle = "#222222"
-    ctx.beginPath()
-    ctx.arc(startX, startY, iconSize, 0, Math.PI * 2)
-    ctx.fill()
-
-    // Draw HBAR symbol
-    ctx.strokeStyle = "#00baff"
-    ctx.lineWidth = 1.5
-
-    // Draw the stylized 'h' of Hedera
-    ctx.beginPath()
-    // Left vertical line
-    ctx.moveTo(startX - 5, startY - 5)
-    ctx.lineTo(startX - 5, startY + 5)
-
-    // Right vertical line
-    ctx.moveTo(startX + 5, startY - 5)
-    ctx.lineTo(startX + 5, startY + 5)
-
-    // Horizontal connecting line
-    ctx.moveTo(startX - 5, startY)
-    ctx.lineTo(startX + 5, startY)
-
-    // Horizontal bar through (distinctive feature of HBAR logo)
-    ctx.moveTo(startX - 7, startY - 2.5)
-    ctx.lineTo(startX + 7, startY - 2.5)
-
-    ctx.stroke()
-
-    // Draw count with background
-    ctx.fillStyle = "rgba(255, 255, 255, 0.7)"
-    ctx.fillRect(startX + 15, startY - 10, 40, 20)
-    ctx.fillStyle = "#000000"
-    ctx.fillText(`${counts[TokenType.HBAR]}/${highestCounts[TokenType.HBAR]}`, startX + textOffset, startY + 5)
-
-    // SOL counter
-    startX += spacing
-    ctx.fillStyle = "#9945FF" // Solana purple
-    ctx.beginPath()
-    ctx.arc(startX, startY, iconSize, 0, Math.PI * 2)
-    ctx.fill()
-
-    // Draw SOL symbol
-    ctx.fillStyle = "#ffffff"
-    ctx.font = "bold 16px Arial"
-    ctx.fillText("S", startX - 5, startY + 5)
-
-    // Draw count with background
-    ctx.fillStyle = "rgba(255, 255, 255, 0.7)"
-    ctx.fillRect(startX + 15, startY - 10, 40, 20)
-    ctx.fillStyle = "#000000"
-    ctx.fillText(`${counts[TokenType.SOL]}/${highestCounts[TokenType.SOL]}`, startX + textOffset, startY + 5)
+  // Watch the autopilot fly a fresh course
+  const handleWatchBot = () => {
+    startRun(createRandomSeed(), { controller: createAutopilot(), rules: PRESET_RULES[preset], mode })
   }
 
-  // Start game handler
-  const handleStartGame = () => {
-    setGameState(GameState.PLAYING)
-    setScore(0)
-    const resetCounts = {
-      [TokenType.BTC]: 0,
-      [TokenType.ETH]: 0,
-      [TokenType.TAO]: 0,
-      [TokenType.BCH]: 0,
-      [TokenType.HBAR]: 0,
-      [TokenType.SOL]: 0,
+  // Play Again repeats the kind of run just finished; a daily course comes back as practice
+  const handlePlayAgain = () => {
+    if (campaignRun !== null) handleStartCampaign(campaignRun)
+    else if (challengeRun) handleStartChallenge(challengeRun)
+    else if (dailyRun) handleStartDaily(dailyRun.day, false)
+    else if (isMarketRun) handleStartMarket()
+    else if (isLevelRun) handleStartLevel()
+    else if (isBotRun) handleWatchBot()
+    else handleStartGame()
+  }
+
+  // Play as another profile: everything shown switches to its save
+  const handleSwitchProfile = async (profileId: string) => {
+    try {
+      applySaveData(await switchProfile(profileId))
+      setGhostChoice(BEST_GHOST)
+      setMenu("main")
+    } catch (error) {
+      console.error("Error switching profile:", error)
     }
-    setTokenCounts(resetCounts)
-    tokenCountsRef.current = { ...resetCounts }
+  }
+
+  const handleCreateProfile = async (details: ProfileDetails) => {
+    applySaveData(await addProfile(details))
+    setGhostChoice(BEST_GHOST)
+    setMenu("main")
+  }
+
+  // Back to the START overlay: the campaign map after a campaign level, the level itself when previewing one
+  const handleBackToMenu = () => {
+    setMenu(campaignRun !== null ? "campaign" : level ? "levels" : "main")
+    setLastReplay(null)
+    setGameState(GameState.START)
   }
 
   return (
@@ -1201,111 +845,428 @@ export default function GameCanvas() {
           )}
         />
 
-        {gameState === GameState.START && (
+        {gameState === GameState.START && menu === "leaderboard" && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center bg-white/80">
+            <h1 className="text-3xl font-bold text-gray-800 mb-4">Leaderboard</h1>
+            <div className="mb-4">
+              <DifficultyPicker value={preset} onValueChange={handlePresetChange} />
+            </div>
+            <Leaderboard highlightId={lastScoreId} preset={preset} />
+            <Button onClick={() => setMenu("main")} variant="outline" className="mt-4">
+              Back
+            </Button>
+          </div>
+        )}
+
+        {gameState === GameState.START && menu === "daily" && (
           <div className="absolute inset-0 flex flex-col items-center justify-center bg-white/80">
+            <h1 className="text-3xl font-bold text-gray-800 mb-4">Daily Challenge</h1>
+            <DailyChallenge
+              today={getDayKey()}
+              history={dailyHistory}
+              onPlay={handleStartDaily}
+              onWatch={handleWatchReplay}
+            />
+            <div className="flex gap-4 mt-4">
+              <Button onClick={() => setMenu("dailyLeaderboard")} variant="outline">
+                Today&apos;s Leaderboard
+              </Button>
+              <Button onClick={() => setMenu("main")} variant="outline">
+                Back
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {gameState === GameState.START && menu === "dailyLeaderboard" && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center bg-white/80">
+            <h1 className="text-3xl font-bold text-gray-800 mb-4">Daily Challenge {getDayKey()}</h1>
+            <Leaderboard highlightId={lastScoreId} day={getDayKey()} />
+            <Button onClick={() => setMenu("daily")} variant="outline" className="mt-4">
+              Back
+            </Button>
+          </div>
+        )}
+
+        {gameState === GameState.START && menu === "market" && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center bg-white/80">
+            <h1 className="text-3xl font-bold text-gray-800 mb-4">Market Data</h1>
+            <MarketDataPicker course={marketCourse} onCourseChange={setMarketCourse} />
+            <div className="flex gap-4 mt-4">
+              <Button
+                onClick={handleStartMarket}
+                disabled={!marketCourse}
+                size="lg"
+                className="bg-yellow-500 hover:bg-yellow-600"
+              >
+                Fly This Chart
+              </Button>
+              <Button onClick={() => setMenu("endless")} size="lg" variant="outline">
+                Back
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {gameState === GameState.START && menu === "levels" && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center bg-white/80">
+            <h1 className="text-3xl font-bold text-gray-800 mb-4">{level ? level.name : "Levels"}</h1>
+            {/* A level handed in from outside is the only one on offer */}
+            {!level && <LevelPicker level={levelCourse} onLevelChange={setLevelCourse} />}
+            <div className="mt-4">
+              <DifficultyPicker value={preset} onValueChange={handlePresetChange} />
+            </div>
+            <div className="flex gap-4 mt-4">
+              <Button
+                onClick={handleStartLevel}
+                disabled={!levelCourse}
+                size="lg"
+                className="bg-yellow-500 hover:bg-yellow-600"
+              >
+                Play Level
+              </Button>
+              {!level && (
+                <Button onClick={() => setMenu("main")} size="lg" variant="outline">
+                  Back
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {gameState === GameState.START && menu === "challenge" && sharedCourse && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center bg-white/80">
+            <h1 className="text-3xl font-bold text-gray-800 mb-4">Challenge</h1>
+            <p className="text-gray-700 mb-1">
+              {sharedCourse.kind === "level"
+                ? `Level: ${sharedCourse.level.name} · ${sharedCourse.level.gates.length} gates`
+                : `Seed ${sharedCourse.seed} · ${getModeDefinition(sharedCourse.mode).name}`}
+              {` · ${DIFFICULTY_PRESET_LABELS[sharedCourse.preset]}`}
+            </p>
+            {sharedCourse.score !== null && (
+              <p className="text-xl font-semibold text-gray-800 mb-1">Score to beat: {sharedCourse.score}</p>
+            )}
+            <div className="flex gap-4 mt-4">
+              <Button
+                onClick={() => handleStartChallenge(sharedCourse)}
+                size="lg"
+                className="bg-yellow-500 hover:bg-yellow-600"
+              >
+                Play This Course
+              </Button>
+              <Button onClick={() => setMenu("main")} size="lg" variant="outline">
+                Main Menu
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {gameState === GameState.START && menu === "main" && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center bg-white/80">
+            {activeProfile && (
+              <button
+                onClick={() => setMenu("profiles")}
+                className="absolute top-4 right-4 flex items-center gap-2 rounded-full bg-white py-1 pl-1 pr-3 shadow"
+                title="Switch profile"
+              >
+                <ProfileAvatar profile={activeProfile} className="h-8 w-8" />
+                <span className="text-sm font-medium text-gray-800">{activeProfile.name}</span>
+              </button>
+            )}
             <h1 className="text-4xl font-bold text-gray-800 mb-4">BTC Trading Game</h1>
             <p className="text-gray-700 mb-8 text-center max-w-md">
               Navigate through the bull and bear gates by clicking or pressing space.
               <br />
               Collect crypto tokens for special effects!
             </p>
-            <Button onClick={handleStartGame} size="lg" className="bg-yellow-500 hover:bg-yellow-600">
-              Start Game
+            <div className="flex gap-4 mb-4">
+              <Button onClick={() => setMenu("campaign")} size="lg" className="bg-yellow-500 hover:bg-yellow-600">
+                Campaign
+              </Button>
+              <Button onClick={() => setMenu("endless")} size="lg" className="bg-yellow-500 hover:bg-yellow-600">
+                Endless
+              </Button>
+            </div>
+            <div className="flex gap-4">
+              <Button onClick={() => setMenu("daily")} variant="outline">
+                Daily Challenge
+              </Button>
+              <Button onClick={() => setMenu("levels")} variant="outline">
+                Levels
+              </Button>
+              <Button onClick={() => setMenu("leaderboard")} variant="outline">
+                Leaderboard
+              </Button>
+            </div>
+            <div className="flex gap-2 mt-4">
+              <Button asChild variant="ghost" size="sm">
+                <Link href="/achievements">Achievements</Link>
+              </Button>
+              <Button asChild variant="ghost" size="sm">
+                <Link href="/stats">Stats</Link>
+              </Button>
+              <Button asChild variant="ghost" size="sm">
+                <Link href="/save">Save Data</Link>
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {gameState === GameState.START && menu === "profiles" && profileList && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center bg-white/80">
+            <h1 className="text-3xl font-bold text-gray-800 mb-2">Profiles</h1>
+            <p className="text-gray-700 mb-6">Each profile keeps its own records, settings and replays.</p>
+            <ProfileSwitcher profileList={profileList} onSwitch={handleSwitchProfile} onCreate={handleCreateProfile} />
+            <Button onClick={() => setMenu("main")} variant="outline" className="mt-4">
+              Back
             </Button>
           </div>
         )}
 
-        {gameState === GameState.GAME_OVER && (
+        {gameState === GameState.START && menu === "campaign" && (
           <div className="absolute inset-0 flex flex-col items-center justify-center bg-white/80">
-            <h1 className="text-4xl font-bold text-gray-800 mb-4">Game Over</h1>
-            <p className="text-2xl text-gray-700 mb-2">Score: {score}</p>
-            <p className="text-xl text-gray-700 mb-4">High Score: {highScore}</p>
-
-            <div className="flex gap-4 mb-6 flex-wrap justify-center max-w-md">
-              <div className="text-center">
-                <div className="bg-[#f7931a] rounded-full w-10 h-10 flex items-center justify-center mx-auto">
-                  <span className="text-white text-xl">₿</span>
-                </div>
-                <p className="text-gray-700 mt-1">
-                  {tokenCounts[TokenType.BTC]}/{highestTokenCounts[TokenType.BTC]}
-                </p>
-              </div>
-              <div className="text-center">
-                <div className="bg-[#627eea] rounded-full w-10 h-10 flex items-center justify-center mx-auto">
-                  <span className="text-white text-xl">Ξ</span>
-                </div>
-                <p className="text-gray-700 mt-1">
-                  {tokenCounts[TokenType.ETH]}/{highestTokenCounts[TokenType.ETH]}
-                </p>
+            <h1 className="text-3xl font-bold text-gray-800 mb-4">Campaign</h1>
+            <CampaignMap progress={campaignProgress} onPlay={handleStartCampaign} />
+            <Button onClick={() => setMenu("main")} variant="outline" className="mt-4">
+              Back
+            </Button>
+          </div>
+        )}
+
+        {gameState === GameState.START && menu === "endless" && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center bg-white/80">
+            <h1 className="text-3xl font-bold text-gray-800 mb-4">Endless</h1>
+            <div className="mb-6 flex flex-col items-center gap-3">
+              <ModePicker value={mode} onValueChange={handleModeChange} />
+              <DifficultyPicker value={preset} onValueChange={handlePresetChange} />
+            </div>
+            <div className="flex gap-4">
+              <Button onClick={handleStartGame} size="lg" className="bg-yellow-500 hover:bg-yellow-600">
+                Start Game
+              </Button>
+              <Button onClick={() => setMenu("market")} size="lg" variant="outline">
+                Market Data
+              </Button>
+              <Button onClick={handleWatchBot} size="lg" variant="outline">
+                Watch Bot
+              </Button>
+            </div>
+            {(bestReplay || recentReplays.length > 0) && (
+              <div className="mt-4 flex flex-col items-center gap-2">
+                <GhostPicker
+                  value={ghostChoice}
+                  bestReplay={bestReplay}
+                  recentReplays={recentReplays}
+                  onValueChange={setGhostChoice}
+                />
+                {bestReplay && (
+                  <Button onClick={() => handleWatchReplay(bestReplay)} variant="outline">
+                    Watch Best Run ({bestReplay.score})
+                  </Button>
+                )}
               </div>
-              <div className="text-center">
-                <div className="bg-[#1a1a1a] rounded-full w-10 h-10 flex items-center justify-center mx-auto">
-                  <div className="relative">
-                    {/* TAO hexagon icon */}
-                    <svg width="20" height="20" viewBox="0 0 20 20" fill="none" xmlns="http://www.w3.org/2000/svg">
-                      <path d="M10 2L17.3 6.5V15.5L10 20L2.7 15.5V6.5L10 2Z" stroke="white" strokeWidth="1.5" />
-                      <path d="M6 8H14M10 8V16" stroke="white" strokeWidth="1.5" />
-                    </svg>
-                  </div>
-                </div>
-                <p className="text-gray-700 mt-1">
-                  {tokenCounts[TokenType.TAO]}/{highestTokenCounts[TokenType.TAO]}
-                </p>
+            )}
+            <Button onClick={() => setMenu("main")} variant="outline" className="mt-4">
+              Back
+            </Button>
+          </div>
+        )}
+
+        {gameState === GameState.GAME_OVER && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center bg-white/80">
+            <h1 className="text-4xl font-bold text-gray-800 mb-4">
+              {endCause === "finished" ? "Level Complete!" : "Game Over"}
+            </h1>
+            <p className="text-2xl text-gray-700 mb-2">
+              {runModeDefinition.scoreLabel}: {score}
+            </p>
+            {!isLevelRun && (
+              <p className="text-xl text-gray-700 mb-1">
+                High Score ({runModeDefinition.name} {DIFFICULTY_PRESET_LABELS[runPreset]}): {highScore}
+              </p>
+            )}
+            <p className="text-sm text-gray-500 mb-4">
+              {isBotRun && "Autopilot · "}
+              {dailyRun
+                ? `Daily Challenge ${dailyRun.day} · ${dailyRun.ranked ? "Ranked" : "Practice"}`
+                : isMarketRun
+                  ? `Market data: ${marketCourse?.name}`
+                  : campaignRun !== null
+                    ? `Campaign level ${campaignRun + 1}: ${levelCourse?.name}`
+                    : isLevelRun
+                      ? `Level: ${levelCourse?.name}`
+                      : `Seed: ${seed}`}
+            </p>
+            {campaignRun !== null && !isBotRun && (
+              <div className="flex gap-3 mb-4">
+                {CAMPAIGN_STARS.map((star) => (
+                  <span key={star} className="flex items-center gap-1 text-sm text-gray-700">
+                    <Star
+                      className={cn(
+                        "h-6 w-6",
+                        campaignStars.includes(star) ? "fill-yellow-400 text-yellow-500" : "text-gray-300",
+                      )}
+                    />
+                    {CAMPAIGN_STAR_LABELS[star]}
+                  </span>
+                ))}
               </div>
-              <div className="text-center">
-                <div className="bg-[#8dc351] rounded-full w-10 h-10 flex items-center justify-center mx-auto">
-                  <div className="relative">
-                    {/* BCH icon - improved */}
-                    <svg width="20" height="20" viewBox="0 0 20 20" fill="none" xmlns="http://www.w3.org/2000/svg">
-                      <g transform="translate(10, 10) rotate(15) translate(-10, -10)">
-                        <path d="M6 4V16" stroke="white" strokeWidth="1.5" />
-                        <path d="M6 7H14" stroke="white" strokeWidth="1.5" />
-                        <path d="M6 13H14" stroke="white" strokeWidth="1.5" />
-                        <path d="M6 7C10 7 10 13 6 13" stroke="white" strokeWidth="1.5" fill="none" />
-                      </g>
-                    </svg>
-                  </div>
+            )}
+            {challengeRun?.score != null && (
+              <p className="text-lg font-semibold text-gray-800 mb-4">
+                {score > challengeRun.score
+                  ? `You beat the challenge score of ${challengeRun.score}!`
+                  : `Challenge score to beat: ${challengeRun.score}`}
+              </p>
+            )}
+
+            <div className="flex gap-4 mb-4 flex-wrap justify-center max-w-md">
+              {TOKEN_DEFINITIONS.map((definition) => (
+                <div key={definition.id} className="text-center" title={definition.name}>
+                  <TokenIcon tokenType={definition.id} />
+                  <p className="text-gray-700 mt-1">
+                    {tokenCounts[definition.id]}/{highestTokenCounts[definition.id]}
+                  </p>
                 </div>
-                <p className="text-gray-700 mt-1">
-                  {tokenCounts[TokenType.BCH]}/{highestTokenCounts[TokenType.BCH]}
-                </p>
+              ))}
+            </div>
+
+            {/* Only Endless runs on a seed are ranked; daily practice, market data, level and bot runs aren't */}
+            {lastReplay &&
+              lastReplay.score > 0 &&
+              runMode === DEFAULT_MODE &&
+              (!dailyRun || dailyRun.ranked) &&
+              !isMarketRun &&
+              !isLevelRun &&
+              !isBotRun && (
+                <ScoreSubmitForm
+                  key={lastReplay.recordedAt}
+                  replay={lastReplay}
+                  day={dailyRun?.day}
+                  onSubmitted={handleScoreSubmitted}
+                />
+              )}
+
+            <div className="flex gap-4">
+              <Button onClick={handlePlayAgain} size="lg" className="bg-yellow-500 hover:bg-yellow-600">
+                {dailyRun ? "Practice Again" : isBotRun ? "Watch Again" : "Play Again"}
+              </Button>
+              {lastReplay && (
+                <Button onClick={() => handleWatchReplay(lastReplay)} size="lg" variant="outline">
+                  Watch Replay
+                </Button>
+              )}
+              {campaignRun !== null &&
+                campaignRun + 1 < CAMPAIGN_LEVELS.length &&
+                isCampaignLevelUnlocked(campaignProgress, campaignRun + 1) && (
+                  <Button onClick={() => handleStartCampaign(campaignRun + 1)} size="lg" variant="outline">
+                    Next Level
+                  </Button>
+                )}
+              <Button onClick={handleBackToMenu} size="lg" variant="outline">
+                Menu
+              </Button>
+            </div>
+            {finishedCourse && (
+              <div className="mt-4">
+                <ShareLinkButton course={finishedCourse} size="sm" />
               </div>
-              <div className="text-center">
-                <div className="bg-[#222222] rounded-full w-10 h-10 flex items-center justify-center mx-auto">
-                  <div className="relative">
-                    {/* HBAR icon - improved */}
-                    <svg width="20" height="20" viewBox="0 0 20 20" fill="none" xmlns="http://www.w3.org/2000/svg">
-                      <path d="M5 4V16M15 4V16M5 10H15M3 7H17" stroke="#00baff" strokeWidth="1.5" />
-                    </svg>
-                  </div>
-                </div>
-                <p className="text-gray-700 mt-1">
-                  {tokenCounts[TokenType.HBAR]}/{highestTokenCounts[TokenType.HBAR]}
+            )}
+          </div>
+        )}
+
+        {gameState === GameState.PAUSED && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center bg-white/80">
+            {resumeCountdown === null ? (
+              <>
+                <h1 className="text-4xl font-bold text-gray-800 mb-4">Paused</h1>
+                <p className="text-gray-700 mb-8">
+                  Press <kbd className="px-2 py-1 bg-gray-200 border border-gray-400 rounded text-xs">Esc</kbd> or{" "}
+                  <kbd className="px-2 py-1 bg-gray-200 border border-gray-400 rounded text-xs">P</kbd> to resume
                 </p>
-              </div>
-              <div className="text-center">
-                <div className="bg-[#9945FF] rounded-full w-10 h-10 flex items-center justify-center mx-auto">
-                  <div className="relative">
-                    {/* SOL icon */}
-                    <span className="text-white font-bold text-lg">S</span>
-                  </div>
+                <div className="flex gap-4">
+                  <Button onClick={handleResume} size="lg" className="bg-yellow-500 hover:bg-yellow-600">
+                    Resume
+                  </Button>
+                  <Button onClick={handleEndRun} size="lg" variant="outline">
+                    End Run
+                  </Button>
                 </div>
-                <p className="text-gray-700 mt-1">
-                  {tokenCounts[TokenType.SOL]}/{highestTokenCounts[TokenType.SOL]}
-                </p>
-              </div>
-            </div>
+              </>
+            ) : (
+              <p className="text-8xl font-bold text-gray-800">{resumeCountdown}</p>
+            )}
+          </div>
+        )}
 
-            <Button onClick={handleStartGame} size="lg" className="bg-yellow-500 hover:bg-yellow-600">
-              Play Again
-            </Button>
+        {(gameState === GameState.PLAYING || gameState === GameState.PAUSED) && (
+          <Button
+            onClick={(e) => {
+              // Drop focus so Space keeps bouncing instead of re-pressing this button
+              e.currentTarget.blur()
+              if (gameState === GameState.PLAYING) handlePause()
+              else handleResume()
+            }}
+            variant="outline"
+            size="icon"
+            className="absolute bottom-4 left-44 bg-white/70"
+            aria-label={gameState === GameState.PLAYING ? "Pause" : "Resume"}
+          >
+            {gameState === GameState.PLAYING ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+          </Button>
+        )}
+
+        {(gameState === GameState.PLAYING || gameState === GameState.PAUSED) && (
+          <div className="absolute top-4 left-4 bg-white/70 px-4 py-2 rounded-lg border border-gray-300">
+            <p className="text-gray-800 text-xl font-bold">
+              {runModeDefinition.scoreLabel}: {score}
+            </p>
+            {!isLevelRun && (
+              <p className="text-gray-600 text-sm">
+                High Score ({runModeDefinition.name} {DIFFICULTY_PRESET_LABELS[runPreset]}): {highScore}
+              </p>
+            )}
+            {secondsLeft !== null && (
+              <p className="text-gray-800 text-sm font-semibold">Time left: {secondsLeft}s</p>
+            )}
+            {runModeDefinition.collisionPenalty !== undefined && (
+              <p className="text-gray-600 text-sm">
+                Hits: {collisions} (−{runModeDefinition.collisionPenalty} each)
+              </p>
+            )}
+            {isBotRun && <p className="text-gray-600 text-sm">Autopilot playing</p>}
+            {isLevelRun && levelCourse && (
+              <p className="text-gray-600 text-sm">
+                {levelCourse.name} · {levelCourse.gates.length} gates
+              </p>
+            )}
+            {dailyRun && (
+              <p className="text-gray-600 text-sm">
+                Daily {dailyRun.day} · {dailyRun.ranked ? "Ranked" : "Practice"}
+              </p>
+            )}
+            {raceGhost && (
+              <p
+                className={cn(
+                  "text-sm font-semibold",
+                  ghostLead > 0 ? "text-[#26a69a]" : ghostLead < 0 ? "text-[#ef5350]" : "text-gray-600",
+                )}
+              >
+                {ghostLead > 0
+                  ? `Ahead by ${ghostLead} ${ghostLead === 1 ? "gate" : "gates"}`
+                  : ghostLead < 0
+                    ? `Behind by ${-ghostLead} ${ghostLead === -1 ? "gate" : "gates"}`
+                    : "Level with ghost"}
+              </p>
+            )}
           </div>
         )}
 
-        {gameState === GameState.PLAYING && (
+        {gameState === GameState.REPLAY && (
           <div className="absolute top-4 left-4 bg-white/70 px-4 py-2 rounded-lg border border-gray-300">
-            <p className="text-gray-800 text-xl font-bold">Score: {score}</p>
-            <p className="text-gray-600 text-sm">High Score: {highScore}</p>
+            <p className="text-gray-800 text-xl font-bold">Replay: {replayScore}</p>
+            <p className="text-gray-600 text-sm">Seed: {activeReplay?.seed}</p>
+            {activeReplay && <p className="text-gray-600 text-sm">{formatReplayRules(activeReplay)}</p>}
           </div>
         )}
 
@@ -1317,9 +1278,26 @@ export default function GameCanvas() {
               or
               <span className="ml-1">Click</span>
             </span>
+            <span className="inline-flex items-center">
+              <kbd className="px-2 py-1 bg-gray-200 border border-gray-400 rounded text-xs mr-1">Esc</kbd>
+              pause
+            </span>
           </p>
         </div>
       </div>
+
+      {gameState === GameState.REPLAY && activeReplay && (
+        <ReplayControls
+          tick={replayTick}
+          finalTick={activeReplay.finalTick}
+          isPaused={replayPaused}
+          speed={replaySpeed}
+          onSeek={handleReplaySeek}
+          onTogglePause={handleReplayTogglePause}
+          onSpeedChange={handleReplaySpeedChange}
+          onExit={handleExitReplay}
+        />
+      )}
     </div>
   )
 }
@@ -0,0 +1,59 @@
+"use client"
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { DEFAULT_MODE, getModeDefinition } from "@/lib/game/modes"
+import { type Replay, getReplayMode, getReplayRules } from "@/lib/game/replay"
+import { DIFFICULTY_PRESET_LABELS, getRulesPreset } from "@/lib/game/rules"
+
+export const NO_GHOST = "none"
+export const BEST_GHOST = "best"
+
+interface GhostPickerProps {
+  value: string
+  bestReplay: Replay | null
+  recentReplays: Replay[]
+  onValueChange: (value: string) => void
+}
+
+// Resolve a picker value ("none", "best" or "recent-<index>") to the replay to race
+export function resolveGhostReplay(value: string, bestReplay: Replay | null, recentReplays: Replay[]) {
+  if (value === BEST_GHOST) return bestReplay
+  if (value.startsWith("recent-")) {
+    return recentReplays[Number(value.slice("recent-".length))] ?? null
+  }
+  return null
+}
+
+function formatRecordedAt(replay: Replay) {
+  return new Date(replay.recordedAt).toLocaleString(undefined, { dateStyle: "short", timeStyle: "short" })
+}
+
+// Racing a ghost flies its mode and rules, so say which ones
+function formatRules(replay: Replay) {
+  const preset = getRulesPreset(getReplayRules(replay))
+  const mode = getReplayMode(replay)
+  const presetLabel = preset ? DIFFICULTY_PRESET_LABELS[preset] : "Custom"
+  return mode === DEFAULT_MODE ? presetLabel : `${getModeDefinition(mode).name} ${presetLabel}`
+}
+
+export default function GhostPicker({ value, bestReplay, recentReplays, onValueChange }: GhostPickerProps) {
+  // Without a personal best yet the default pick races nothing
+  const shownValue = value === BEST_GHOST && !bestReplay ? NO_GHOST : value
+
+  return (
+    <Select value={shownValue} onValueChange={onValueChange}>
+      <SelectTrigger className="w-64 bg-white" aria-label="Ghost to race">
+        <SelectValue placeholder="Race a ghost" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_GHOST}>No ghost</SelectItem>
+        {bestReplay && <SelectItem value={BEST_GHOST}>Personal best ({bestReplay.score})</SelectItem>}
+        {recentReplays.map((replay, index) => (
+          <SelectItem key={`${replay.recordedAt}-${index}`} value={`recent-${index}`}>
+            Score {replay.score} · {formatRules(replay)} · {formatRecordedAt(replay)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
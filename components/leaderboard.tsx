@@ -0,0 +1,129 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { DEFAULT_PRESET, type DifficultyPreset } from "@/lib/game/rules"
+import { cn } from "@/lib/utils"
+import {
+  type LeaderboardBoard,
+  type RankedScoreEntry,
+  TIME_WINDOWS,
+  TIME_WINDOW_LABELS,
+  type TimeWindow,
+  fetchScoresAround,
+  fetchTopScores,
+} from "@/lib/leaderboard"
+
+interface LeaderboardProps {
+  highlightId?: string | null // The player's own last submitted entry
+  preset?: DifficultyPreset
+  day?: string // Show this day's Daily Challenge board instead of the Endless ones
+  limit?: number
+}
+
+interface BoardState {
+  top: RankedScoreEntry[]
+  around: RankedScoreEntry[] // Only filled when the highlighted entry is outside the top
+  isLoading: boolean
+  error: string | null
+}
+
+export default function Leaderboard({
+  highlightId = null,
+  preset = DEFAULT_PRESET,
+  day,
+  limit = 10,
+}: LeaderboardProps) {
+  const [timeWindow, setTimeWindow] = useState<TimeWindow>("daily")
+  const [board, setBoard] = useState<BoardState>({ top: [], around: [], isLoading: true, error: null })
+
+  useEffect(() => {
+    let cancelled = false
+    setBoard((current) => ({ ...current, isLoading: true, error: null }))
+
+    const shown: LeaderboardBoard = day ? { day } : { window: timeWindow, preset }
+    const load = async () => {
+      const top = await fetchTopScores(shown, limit)
+      const isInTop = top.some((entry) => entry.id === highlightId)
+      const around = highlightId && !isInTop ? await fetchScoresAround(shown, highlightId) : []
+      return { top, around }
+    }
+
+    load()
+      .then(({ top, around }) => {
+        if (!cancelled) setBoard({ top, around, isLoading: false, error: null })
+      })
+      .catch((e: Error) => {
+        if (!cancelled) setBoard({ top: [], around: [], isLoading: false, error: e.message })
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [timeWindow, highlightId, preset, day, limit])
+
+  const renderRow = (entry: RankedScoreEntry) => (
+    <TableRow key={entry.id} className={cn(entry.id === highlightId && "bg-yellow-100 font-semibold")}>
+      <TableCell className="py-1">{entry.rank}</TableCell>
+      <TableCell className="py-1">{entry.name}</TableCell>
+      <TableCell className="py-1 text-right tabular-nums">{entry.score}</TableCell>
+      <TableCell className="py-1 text-right text-gray-500">{new Date(entry.createdAt).toLocaleDateString()}</TableCell>
+    </TableRow>
+  )
+
+  const renderBoard = () =>
+    board.error ? (
+      <p className="p-4 text-center text-sm text-red-600">{board.error}</p>
+    ) : board.isLoading ? (
+      <p className="p-4 text-center text-sm text-gray-500">Loading…</p>
+    ) : board.top.length === 0 ? (
+      <p className="p-4 text-center text-sm text-gray-500">No scores yet. Be the first!</p>
+    ) : (
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="h-8 w-12">#</TableHead>
+            <TableHead className="h-8">Player</TableHead>
+            <TableHead className="h-8 text-right">Score</TableHead>
+            <TableHead className="h-8 text-right">Date</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {board.top.map(renderRow)}
+          {board.around.length > 0 && (
+            <>
+              <TableRow>
+                <TableCell colSpan={4} className="py-1 text-center text-gray-400">
+                  ⋯
+                </TableCell>
+              </TableRow>
+              {board.around.filter((entry) => entry.rank > board.top.length).map(renderRow)}
+            </>
+          )}
+        </TableBody>
+      </Table>
+    )
+
+  if (day) {
+    return <div className="max-h-72 w-[420px] overflow-y-auto rounded-md bg-white">{renderBoard()}</div>
+  }
+
+  return (
+    <Tabs value={timeWindow} onValueChange={(value) => setTimeWindow(value as TimeWindow)} className="w-[420px]">
+      <TabsList className="grid w-full grid-cols-3">
+        {TIME_WINDOWS.map((option) => (
+          <TabsTrigger key={option} value={option}>
+            {TIME_WINDOW_LABELS[option]}
+          </TabsTrigger>
+        ))}
+      </TabsList>
+
+      {TIME_WINDOWS.map((option) => (
+        <TabsContent key={option} value={option} className="max-h-72 overflow-y-auto rounded-md bg-white">
+          {renderBoard()}
+        </TabsContent>
+      ))}
+    </Tabs>
+  )
+}
@@ -0,0 +1,417 @@
+"use client"
+
+import { type ChangeEvent, useEffect, useState } from "react"
+import GameCanvas from "@/components/game-canvas"
+import ShareLinkButton from "@/components/share-link-button"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { GAME_HEIGHT, GATE_WIDTH } from "@/lib/game/constants"
+import {
+  type Level,
+  LevelError,
+  type LevelGate,
+  type SpeedSegment,
+  createDefaultLevel,
+  createLevelGate,
+  getLevelGateGap,
+  getLevelLength,
+  getLevelProblem,
+  parseLevel,
+  serializeLevel,
+} from "@/lib/game/level"
+import { DEFAULT_PRESET, DEFAULT_RULES } from "@/lib/game/rules"
+import { TOKEN_DEFINITIONS, type TokenType, getTokenDefinition } from "@/lib/game/tokens"
+
+// The level being edited survives reloads
+const EDITOR_DRAFT_KEY = "btcGameEditorLevel"
+
+const OVERVIEW_HEIGHT = 150
+const OVERVIEW_SCALE = OVERVIEW_HEIGHT / GAME_HEIGHT
+const NO_TOKEN = "none"
+
+function loadDraft(): Level | null {
+  const saved = localStorage.getItem(EDITOR_DRAFT_KEY)
+  if (!saved) return null
+
+  try {
+    return JSON.parse(saved) as Level
+  } catch (e) {
+    console.error("Error parsing level draft:", e)
+    return null
+  }
+}
+
+function downloadLevel(level: Level) {
+  const blob = new Blob([serializeLevel(level)], { type: "application/json" })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = `${level.name.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-") || "level"}.json`
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+// Left edge of every gate along the course
+function getGatePositions(level: Level) {
+  let x = 0
+  return level.gates.map((gate, index) => (index === 0 ? x : (x += gate.spacing)))
+}
+
+// Place gates, give them tokens and speeds, and try the level out right away
+export default function LevelEditor() {
+  const [level, setLevel] = useState<Level>(createDefaultLevel)
+  const [selected, setSelected] = useState(0)
+  const [fileError, setFileError] = useState<string | null>(null)
+  const [preview, setPreview] = useState<{ key: number; level: Level } | null>(null)
+
+  useEffect(() => {
+    const draft = loadDraft()
+    if (draft) setLevel(draft)
+  }, [])
+
+  useEffect(() => {
+    localStorage.setItem(EDITOR_DRAFT_KEY, JSON.stringify(level))
+  }, [level])
+
+  const problem = getLevelProblem(level)
+  const gate = level.gates[Math.min(selected, level.gates.length - 1)]
+  const positions = getGatePositions(level)
+
+  const updateGate = (index: number, changes: Partial<LevelGate>) => {
+    setLevel((current) => ({
+      ...current,
+      gates: current.gates.map((existing, i) => (i === index ? { ...existing, ...changes } : existing)),
+    }))
+  }
+
+  const handleAddGate = () => {
+    setLevel((current) => {
+      const gates = [...current.gates]
+      gates.splice(selected + 1, 0, createLevelGate({ topHeight: current.gates[selected]?.topHeight }))
+      return { ...current, gates }
+    })
+    setSelected(selected + 1)
+  }
+
+  const handleRemoveGate = () => {
+    if (level.gates.length <= 1) return
+    setLevel((current) => ({ ...current, gates: current.gates.filter((_, i) => i !== selected) }))
+    setSelected(Math.max(0, selected - 1))
+  }
+
+  const handleMoveGate = (offset: number) => {
+    const target = selected + offset
+    if (target < 0 || target >= level.gates.length) return
+    setLevel((current) => {
+      const gates = [...current.gates]
+      ;[gates[selected], gates[target]] = [gates[target], gates[selected]]
+      return { ...current, gates }
+    })
+    setSelected(target)
+  }
+
+  const updateSegment = (index: number, changes: Partial<SpeedSegment>) => {
+    setLevel((current) => ({
+      ...current,
+      speedSegments: current.speedSegments.map((segment, i) => (i === index ? { ...segment, ...changes } : segment)),
+    }))
+  }
+
+  const handleAddSegment = () => {
+    setLevel((current) => ({
+      ...current,
+      speedSegments: [...current.speedSegments, { fromGate: selected, speed: DEFAULT_RULES.gateSpeed }],
+    }))
+  }
+
+  const handleRemoveSegment = (index: number) => {
+    setLevel((current) => ({ ...current, speedSegments: current.speedSegments.filter((_, i) => i !== index) }))
+  }
+
+  const handleNew = () => {
+    setLevel(createDefaultLevel())
+    setSelected(0)
+    setPreview(null)
+  }
+
+  const handleOpen = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    try {
+      setLevel(parseLevel(await file.text()))
+      setSelected(0)
+      setPreview(null)
+      setFileError(null)
+    } catch (err) {
+      console.error("Error loading level:", err)
+      setFileError(err instanceof LevelError ? err.message : "Couldn't read that file")
+    }
+    e.target.value = ""
+  }
+
+  const handlePreview = () => {
+    setPreview({ key: Date.now(), level })
+  }
+
+  return (
+    <div className="flex w-full max-w-5xl flex-col gap-6">
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="level-name">Name</Label>
+          <Input
+            id="level-name"
+            value={level.name}
+            onChange={(e) => setLevel((current) => ({ ...current, name: e.target.value }))}
+            className="w-64"
+          />
+        </div>
+        <Button onClick={handleNew} variant="outline">
+          New
+        </Button>
+        <Button asChild variant="outline">
+          <label className="cursor-pointer">
+            Open…
+            <input type="file" accept=".json,application/json" onChange={handleOpen} className="hidden" />
+          </label>
+        </Button>
+        <Button onClick={() => downloadLevel(level)} disabled={problem !== null} variant="outline">
+          Save JSON
+        </Button>
+        <ShareLinkButton
+          course={{ kind: "level", level, preset: DEFAULT_PRESET, score: null }}
+          label="Copy Link"
+          disabled={problem !== null}
+        />
+        <Button onClick={handlePreview} disabled={problem !== null} className="bg-yellow-500 hover:bg-yellow-600">
+          Preview
+        </Button>
+      </div>
+
+      {fileError && <p className="text-sm text-red-600">{fileError}</p>}
+      {problem && <p className="text-sm text-red-600">{problem}</p>}
+
+      {/* Side view of the whole course at the Normal preset's gaps; click a gate to edit it */}
+      <div className="overflow-x-auto rounded-md border border-gray-300 bg-gray-50">
+        <svg
+          width={(getLevelLength(level) + GATE_WIDTH * 2) * OVERVIEW_SCALE}
+          height={OVERVIEW_HEIGHT}
+          viewBox={`${-GATE_WIDTH} 0 ${getLevelLength(level) + GATE_WIDTH * 2} ${GAME_HEIGHT}`}
+        >
+          {level.gates.map((levelGate, index) => {
+            const x = positions[index]
+            const gap = getLevelGateGap(levelGate, DEFAULT_RULES)
+            return (
+              <g key={index} onClick={() => setSelected(index)} className="cursor-pointer">
+                <rect x={x} y={0} width={GATE_WIDTH} height={Math.max(0, levelGate.topHeight)} fill="#ef5350" />
+                <rect
+                  x={x}
+                  y={levelGate.topHeight + gap}
+                  width={GATE_WIDTH}
+                  height={Math.max(0, GAME_HEIGHT - levelGate.topHeight - gap)}
+                  fill="#26a69a"
+                />
+                {levelGate.token && (
+                  <circle
+                    cx={x + GATE_WIDTH / 2}
+                    cy={levelGate.topHeight + gap / 2}
+                    r={20}
+                    fill={getTokenDefinition(levelGate.token).color}
+                  />
+                )}
+                {index === selected && (
+                  <rect
+                    x={x - 8}
+                    y={4}
+                    width={GATE_WIDTH + 16}
+                    height={GAME_HEIGHT - 8}
+                    fill="none"
+                    stroke="#eab308"
+                    strokeWidth={8}
+                  />
+                )}
+              </g>
+            )
+          })}
+          {level.speedSegments.map((segment, index) => {
+            const x = segment.fromGate < positions.length ? positions[segment.fromGate] : null
+            if (x === null) return null
+            return (
+              <g key={index}>
+                <line
+                  x1={x - 20}
+                  x2={x - 20}
+                  y1={0}
+                  y2={GAME_HEIGHT}
+                  stroke="#627eea"
+                  strokeWidth={4}
+                  strokeDasharray="16 12"
+                />
+                <text x={x - 14} y={40} fontSize={36} fill="#627eea">
+                  {segment.speed}
+                </text>
+              </g>
+            )
+          })}
+        </svg>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <div className="flex flex-col gap-4 rounded-lg border border-gray-300 bg-white p-4">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-gray-800">
+              Gate {selected + 1} of {level.gates.length}
+            </h2>
+            <div className="flex gap-2">
+              <Button onClick={() => handleMoveGate(-1)} disabled={selected === 0} size="sm" variant="outline">
+                ←
+              </Button>
+              <Button
+                onClick={() => handleMoveGate(1)}
+                disabled={selected === level.gates.length - 1}
+                size="sm"
+                variant="outline"
+              >
+                →
+              </Button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="gate-spacing">Spacing (px)</Label>
+              <Input
+                id="gate-spacing"
+                type="number"
+                value={gate.spacing}
+                disabled={selected === 0}
+                onChange={(e) => updateGate(selected, { spacing: Number(e.target.value) })}
+              />
+            </div>
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="gate-top">Top height (px)</Label>
+              <Input
+                id="gate-top"
+                type="number"
+                value={gate.topHeight}
+                onChange={(e) => updateGate(selected, { topHeight: Number(e.target.value) })}
+              />
+            </div>
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="gate-gap">Gap (px)</Label>
+              <Input
+                id="gate-gap"
+                type="number"
+                value={gate.gap ?? ""}
+                placeholder="Preset"
+                onChange={(e) => updateGate(selected, { gap: e.target.value === "" ? null : Number(e.target.value) })}
+              />
+            </div>
+            <div className="flex flex-col gap-2">
+              <Label>Token</Label>
+              <Select
+                value={gate.token ?? NO_TOKEN}
+                onValueChange={(value) =>
+                  updateGate(selected, { token: value === NO_TOKEN ? null : (value as TokenType) })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_TOKEN}>No token</SelectItem>
+                  {TOKEN_DEFINITIONS.map((definition) => (
+                    <SelectItem key={definition.id} value={definition.id}>
+                      {definition.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="gate-narrow"
+              checked={gate.narrow}
+              disabled={gate.gap !== null}
+              onCheckedChange={(checked) => updateGate(selected, { narrow: checked === true })}
+            />
+            <Label htmlFor="gate-narrow">Narrow (uses the preset&apos;s narrow gap)</Label>
+          </div>
+
+          <div className="flex gap-2">
+            <Button onClick={handleAddGate} variant="outline">
+              Add Gate After
+            </Button>
+            <Button onClick={handleRemoveGate} disabled={level.gates.length <= 1} variant="outline">
+              Remove Gate
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-4 rounded-lg border border-gray-300 bg-white p-4">
+          <h2 className="text-lg font-semibold text-gray-800">Scroll speed</h2>
+          <p className="text-sm text-gray-600">
+            The level scrolls at the preset&apos;s speed ({DEFAULT_RULES.gateSpeed} on Normal) until the first change.
+          </p>
+          {level.speedSegments.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>After gates passed</TableHead>
+                  <TableHead>Speed (px/step)</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {level.speedSegments.map((segment, index) => (
+                  <TableRow key={index}>
+                    <TableCell className="py-1">
+                      <Input
+                        type="number"
+                        value={segment.fromGate}
+                        aria-label="After gates passed"
+                        onChange={(e) => updateSegment(index, { fromGate: Number(e.target.value) })}
+                      />
+                    </TableCell>
+                    <TableCell className="py-1">
+                      <Input
+                        type="number"
+                        step="0.1"
+                        value={segment.speed}
+                        aria-label="Speed"
+                        onChange={(e) => updateSegment(index, { speed: Number(e.target.value) })}
+                      />
+                    </TableCell>
+                    <TableCell className="py-1 text-right">
+                      <Button onClick={() => handleRemoveSegment(index)} size="sm" variant="ghost">
+                        Remove
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+          <Button onClick={handleAddSegment} variant="outline" className="self-start">
+            Add Speed Change
+          </Button>
+        </div>
+      </div>
+
+      {preview && (
+        <div className="flex flex-col items-center gap-2">
+          <GameCanvas key={preview.key} level={preview.level} />
+          <Button onClick={() => setPreview(null)} variant="outline">
+            Close Preview
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,55 @@
+"use client"
+
+import { type ChangeEvent, useState } from "react"
+import Link from "next/link"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { type Level, LevelError, parseLevel } from "@/lib/game/level"
+
+interface LevelPickerProps {
+  level: Level | null
+  onLevelChange: (level: Level) => void
+}
+
+// Load a level JSON file saved from the editor, and summarise what was loaded
+export default function LevelPicker({ level, onLevelChange }: LevelPickerProps) {
+  const [error, setError] = useState<string | null>(null)
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    try {
+      onLevelChange(parseLevel(await file.text()))
+      setError(null)
+    } catch (err) {
+      console.error("Error loading level:", err)
+      setError(err instanceof LevelError ? err.message : "Couldn't read that file")
+    }
+  }
+
+  return (
+    <div className="flex w-96 flex-col gap-2 rounded-lg border border-gray-300 bg-white p-4">
+      <Label htmlFor="level-file">Level (JSON)</Label>
+      <Input id="level-file" type="file" accept=".json,application/json" onChange={handleFileChange} />
+      <p className="text-xs text-gray-500">
+        Build your own in the{" "}
+        <Link href="/editor" className="underline">
+          level editor
+        </Link>
+        .
+      </p>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {level && (
+        <div className="text-sm text-gray-700">
+          <p className="font-semibold">{level.name}</p>
+          <p>
+            {level.gates.length} gates · {level.gates.filter((gate) => gate.token !== null).length} tokens
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,56 @@
+"use client"
+
+import { type ChangeEvent, useState } from "react"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { type MarketCourse, MarketDataError, createMarketCourse, formatCandleDate, parseCandles } from "@/lib/game/market-data"
+
+interface MarketDataPickerProps {
+  course: MarketCourse | null
+  onCourseChange: (course: MarketCourse) => void
+}
+
+// Load an OHLC CSV or JSON file to fly through, and summarise what was loaded
+export default function MarketDataPicker({ course, onCourseChange }: MarketDataPickerProps) {
+  const [error, setError] = useState<string | null>(null)
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    try {
+      const candles = parseCandles(await file.text())
+      onCourseChange(createMarketCourse(file.name.replace(/\.(csv|json)$/i, ""), candles))
+      setError(null)
+    } catch (err) {
+      console.error("Error loading market data:", err)
+      setError(err instanceof MarketDataError ? err.message : "Couldn't read that file")
+    }
+  }
+
+  return (
+    <div className="flex w-96 flex-col gap-2 rounded-lg border border-gray-300 bg-white p-4">
+      <Label htmlFor="market-data-file">OHLC candles (CSV or JSON)</Label>
+      <Input id="market-data-file" type="file" accept=".csv,.json,text/csv,application/json" onChange={handleFileChange} />
+      <p className="text-xs text-gray-500">
+        CSV needs a header with date, open, high, low and close columns. JSON can be an array of candle objects or of
+        [time, open, high, low, close] rows.
+      </p>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {course && (
+        <div className="text-sm text-gray-700">
+          <p className="font-semibold">{course.name}</p>
+          <p>
+            {course.candles.length} candles · {formatCandleDate(course.candles[0].time)} to{" "}
+            {formatCandleDate(course.candles[course.candles.length - 1].time)}
+          </p>
+          <p>
+            ${course.minPrice.toLocaleString()} – ${course.maxPrice.toLocaleString()}
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
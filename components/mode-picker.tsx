@@ -0,0 +1,29 @@
+"use client"
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { GAME_MODE_DEFINITIONS, type GameMode, getModeDefinition } from "@/lib/game/modes"
+
+interface ModePickerProps {
+  value: GameMode
+  onValueChange: (mode: GameMode) => void
+}
+
+export default function ModePicker({ value, onValueChange }: ModePickerProps) {
+  return (
+    <div className="flex flex-col items-center gap-1">
+      <Select value={value} onValueChange={(mode) => onValueChange(mode as GameMode)}>
+        <SelectTrigger className="w-64 bg-white" aria-label="Game mode">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {GAME_MODE_DEFINITIONS.map((definition) => (
+            <SelectItem key={definition.id} value={definition.id}>
+              {definition.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <p className="text-sm text-gray-600 text-center max-w-sm">{getModeDefinition(value).description}</p>
+    </div>
+  )
+}
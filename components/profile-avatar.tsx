@@ -0,0 +1,30 @@
+"use client"
+
+import { Avatar, AvatarFallback } from "@/components/ui/avatar"
+import { type Profile, type ProfileColor, getProfileInitials } from "@/lib/game/profiles"
+import { cn } from "@/lib/utils"
+
+export const PROFILE_COLOR_CLASSES: Record<ProfileColor, string> = {
+  yellow: "bg-yellow-500",
+  orange: "bg-orange-500",
+  red: "bg-red-500",
+  green: "bg-green-600",
+  blue: "bg-blue-500",
+  purple: "bg-purple-500",
+}
+
+interface ProfileAvatarProps {
+  profile: Pick<Profile, "name" | "color">
+  className?: string
+}
+
+// A profile's initials on its color
+export default function ProfileAvatar({ profile, className }: ProfileAvatarProps) {
+  return (
+    <Avatar className={className}>
+      <AvatarFallback className={cn("font-bold text-white", PROFILE_COLOR_CLASSES[profile.color])}>
+        {getProfileInitials(profile.name)}
+      </AvatarFallback>
+    </Avatar>
+  )
+}
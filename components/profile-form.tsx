@@ -0,0 +1,101 @@
+"use client"
+
+import { useMemo } from "react"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { useForm } from "react-hook-form"
+import ProfileAvatar, { PROFILE_COLOR_CLASSES } from "@/components/profile-avatar"
+import { Button } from "@/components/ui/button"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import {
+  MAX_PROFILE_NAME_LENGTH,
+  PROFILE_COLORS,
+  type Profile,
+  type ProfileDetails,
+  createProfileDetailsSchema,
+} from "@/lib/game/profiles"
+import { cn } from "@/lib/utils"
+
+interface ProfileFormProps {
+  profiles: Profile[] // Existing profiles, whose names can't be reused
+  onCreate: (details: ProfileDetails) => Promise<void>
+  onCancel: () => void
+}
+
+export default function ProfileForm({ profiles, onCreate, onCancel }: ProfileFormProps) {
+  const schema = useMemo(() => createProfileDetailsSchema(profiles), [profiles])
+  const form = useForm<ProfileDetails>({
+    resolver: zodResolver(schema),
+    // Start on a color nobody has yet
+    defaultValues: {
+      name: "",
+      color: PROFILE_COLORS.find((color) => profiles.every((profile) => profile.color !== color)) ?? PROFILE_COLORS[0],
+    },
+  })
+  const preview = form.watch()
+
+  const handleSubmit = async (details: ProfileDetails) => {
+    try {
+      await onCreate(details)
+    } catch (error) {
+      console.error("Error creating profile:", error)
+      form.setError("root", { message: "Couldn't create the profile, try again" })
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="flex w-72 flex-col gap-4">
+        <div className="flex items-center gap-3">
+          <ProfileAvatar profile={{ name: preview.name || "?", color: preview.color }} className="h-12 w-12" />
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem className="flex-1">
+                <FormLabel>Name</FormLabel>
+                <FormControl>
+                  <Input {...field} maxLength={MAX_PROFILE_NAME_LENGTH} className="bg-white" autoFocus />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <FormField
+          control={form.control}
+          name="color"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Color</FormLabel>
+              <FormControl>
+                <RadioGroup value={field.value} onValueChange={field.onChange} className="flex gap-2">
+                  {PROFILE_COLORS.map((color) => (
+                    <RadioGroupItem
+                      key={color}
+                      value={color}
+                      aria-label={color}
+                      className={cn("h-7 w-7 border-2 border-white text-white", PROFILE_COLOR_CLASSES[color])}
+                    />
+                  ))}
+                </RadioGroup>
+              </FormControl>
+            </FormItem>
+          )}
+        />
+        {form.formState.errors.root && (
+          <p className="text-sm text-red-600">{form.formState.errors.root.message}</p>
+        )}
+        <div className="flex gap-2">
+          <Button type="submit" disabled={form.formState.isSubmitting} className="bg-yellow-500 hover:bg-yellow-600">
+            Create Profile
+          </Button>
+          <Button type="button" onClick={onCancel} variant="outline">
+            Cancel
+          </Button>
+        </div>
+      </form>
+    </Form>
+  )
+}
@@ -0,0 +1,52 @@
+"use client"
+
+import { useState } from "react"
+import { Plus } from "lucide-react"
+import ProfileAvatar from "@/components/profile-avatar"
+import ProfileForm from "@/components/profile-form"
+import { Button } from "@/components/ui/button"
+import { MAX_PROFILES, type ProfileDetails, type ProfileList } from "@/lib/game/profiles"
+import { cn } from "@/lib/utils"
+
+interface ProfileSwitcherProps {
+  profileList: ProfileList
+  onSwitch: (profileId: string) => void
+  onCreate: (details: ProfileDetails) => Promise<void>
+}
+
+// Every profile on this browser; picking one plays as it, and new ones can be added
+export default function ProfileSwitcher({ profileList, onSwitch, onCreate }: ProfileSwitcherProps) {
+  const [isCreating, setIsCreating] = useState(false)
+  const { activeProfileId, profiles } = profileList
+
+  if (isCreating) {
+    return <ProfileForm profiles={profiles} onCreate={onCreate} onCancel={() => setIsCreating(false)} />
+  }
+
+  return (
+    <div className="flex flex-col items-center gap-3">
+      <div className="grid grid-cols-4 gap-3">
+        {profiles.map((profile) => (
+          <button
+            key={profile.id}
+            onClick={() => onSwitch(profile.id)}
+            className={cn(
+              "flex w-28 flex-col items-center gap-1 rounded-lg border-2 bg-white p-3 transition-colors",
+              profile.id === activeProfileId ? "border-yellow-500" : "border-gray-200 hover:bg-yellow-50",
+            )}
+          >
+            <ProfileAvatar profile={profile} className="h-12 w-12" />
+            <span className="w-full truncate text-sm font-medium text-gray-800">{profile.name}</span>
+          </button>
+        ))}
+      </div>
+      <Button onClick={() => setIsCreating(true)} disabled={profiles.length >= MAX_PROFILES} variant="outline">
+        <Plus className="h-4 w-4" />
+        New Profile
+      </Button>
+      {profiles.length >= MAX_PROFILES && (
+        <p className="text-sm text-gray-500">This browser has the most profiles it can keep ({MAX_PROFILES}).</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,73 @@
+"use client"
+
+import { Pause, Play, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Slider } from "@/components/ui/slider"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { SIMULATION_TICK_RATE } from "@/lib/game/constants"
+
+export const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 4]
+
+interface ReplayControlsProps {
+  tick: number
+  finalTick: number
+  isPaused: boolean
+  speed: number
+  onSeek: (tick: number) => void
+  onTogglePause: () => void
+  onSpeedChange: (speed: number) => void
+  onExit: () => void
+}
+
+function formatTicks(ticks: number) {
+  return `${(ticks / SIMULATION_TICK_RATE).toFixed(1)}s`
+}
+
+export default function ReplayControls({
+  tick,
+  finalTick,
+  isPaused,
+  speed,
+  onSeek,
+  onTogglePause,
+  onSpeedChange,
+  onExit,
+}: ReplayControlsProps) {
+  return (
+    <div className="mt-4 flex w-[800px] items-center gap-4 rounded-lg border border-gray-300 bg-white px-4 py-2">
+      <Button variant="outline" size="icon" onClick={onTogglePause} aria-label={isPaused ? "Play" : "Pause"}>
+        {isPaused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+      </Button>
+
+      <Slider
+        value={[tick]}
+        min={0}
+        max={finalTick}
+        step={1}
+        onValueChange={([value]) => onSeek(value)}
+        aria-label="Replay position"
+      />
+
+      <span className="w-24 text-right text-sm tabular-nums text-gray-700">
+        {formatTicks(tick)} / {formatTicks(finalTick)}
+      </span>
+
+      <ToggleGroup
+        type="single"
+        size="sm"
+        value={speed.toString()}
+        onValueChange={(value) => value && onSpeedChange(Number(value))}
+      >
+        {REPLAY_SPEEDS.map((option) => (
+          <ToggleGroupItem key={option} value={option.toString()} aria-label={`${option}x speed`}>
+            {option}x
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+
+      <Button variant="ghost" size="icon" onClick={onExit} aria-label="Exit replay">
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,248 @@
+"use client"
+
+import { REGEXP_ONLY_DIGITS_AND_CHARS } from "input-otp"
+import { type ChangeEvent, useEffect, useState } from "react"
+import ProfileAvatar from "@/components/profile-avatar"
+import { Button } from "@/components/ui/button"
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp"
+import { Label } from "@/components/ui/label"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import type { SaveData } from "@/lib/game/save-data"
+import type { Profile } from "@/lib/game/profiles"
+import { getActiveProfile, importSaveData, loadSaveData } from "@/lib/game/save-store"
+import {
+  SaveTransferError,
+  TRANSFER_CODE_LENGTH,
+  type TransferCode,
+  createTransferCode,
+  exportSaveFile,
+  readSaveFile,
+  redeemTransferCode,
+} from "@/lib/save-transfer"
+
+type ImportStrategy = "merge" | "replace"
+
+// A save that has been read and checked, waiting for the player to choose how to bring it in
+interface PendingImport {
+  save: SaveData
+  source: string
+}
+
+function describeSave(save: SaveData) {
+  const highScores = Object.values(save.highScores).reduce((total, scores) => total + Object.keys(scores).length, 0)
+  return [
+    `${highScores} high scores`,
+    `${save.replays.recent.length} recent replays`,
+    `${Object.keys(save.campaign).length} campaign levels`,
+    `${Object.keys(save.dailyHistory).length} daily challenges`,
+    `${Object.values(save.achievements).filter((result) => result.unlockedAt).length} achievements`,
+  ].join(" · ")
+}
+
+function downloadSaveFile(file: unknown) {
+  const blob = new Blob([JSON.stringify(file)], { type: "application/json" })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = `btc-game-save-${new Date().toISOString().slice(0, 10)}.json`
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+function getErrorMessage(error: unknown, fallback: string) {
+  return error instanceof SaveTransferError ? error.message : fallback
+}
+
+// Export, import and hand over the player's save
+export default function SaveManager() {
+  const [isBusy, setIsBusy] = useState(false)
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null)
+  const [transfer, setTransfer] = useState<TransferCode | null>(null)
+  const [code, setCode] = useState("")
+  const [pending, setPending] = useState<PendingImport | null>(null)
+  const [strategy, setStrategy] = useState<ImportStrategy>("merge")
+  const [profile, setProfile] = useState<Profile | null>(null) // Exports and imports act on the active profile
+
+  useEffect(() => {
+    let cancelled = false
+    loadSaveData()
+      .then(() => {
+        if (!cancelled) setProfile(getActiveProfile())
+      })
+      .catch((e) => {
+        console.error("Error loading save data:", e)
+        if (!cancelled) setMessage({ text: "Couldn't load the save in this browser.", isError: true })
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  // Run one request at a time and report how it went
+  const run = async (task: () => Promise<void>, fallbackError: string) => {
+    setIsBusy(true)
+    setMessage(null)
+    try {
+      await task()
+    } catch (error) {
+      console.error(fallbackError, error)
+      setMessage({ text: getErrorMessage(error, fallbackError), isError: true })
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleExport = () =>
+    run(async () => {
+      downloadSaveFile(await exportSaveFile(await loadSaveData()))
+      setMessage({ text: "Save file downloaded.", isError: false })
+    }, "Couldn't export the save")
+
+  const handleOpen = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = "" // Allow picking the same file again
+    if (!file) return
+
+    run(async () => {
+      let contents: unknown
+      try {
+        contents = JSON.parse(await file.text())
+      } catch {
+        throw new SaveTransferError("INVALID_FILE")
+      }
+      setPending({ save: await readSaveFile(contents), source: file.name })
+    }, "Couldn't read the save file")
+  }
+
+  const handleCreateCode = () =>
+    run(async () => {
+      setTransfer(await createTransferCode(await loadSaveData()))
+    }, "Couldn't create a transfer code")
+
+  const handleRedeemCode = (value: string) =>
+    run(async () => {
+      const transferCode = value.toUpperCase()
+      setPending({ save: await redeemTransferCode(transferCode), source: `transfer code ${transferCode}` })
+      setCode("")
+    }, "Couldn't fetch the save for that code")
+
+  const handleImport = () =>
+    run(async () => {
+      if (!pending) return
+      await loadSaveData()
+      importSaveData(pending.save, strategy)
+      setPending(null)
+      setMessage({ text: strategy === "merge" ? "Save merged." : "Save replaced.", isError: false })
+    }, "Couldn't import the save")
+
+  return (
+    <div className="flex w-full max-w-3xl flex-col gap-8">
+      {profile && (
+        <div className="flex items-center gap-3">
+          <ProfileAvatar profile={profile} />
+          <p className="text-gray-700">
+            Save of <span className="font-bold">{profile.name}</span>. Switch profiles from the game&apos;s menu.
+          </p>
+        </div>
+      )}
+
+      <section className="flex flex-col gap-3">
+        <h2 className="text-xl font-bold text-gray-800">Save File</h2>
+        <p className="text-gray-600">
+          Download everything the game keeps for you, or load a file exported from this game. Files carry a checksum,
+          so damaged ones are refused.
+        </p>
+        <div className="flex gap-4">
+          <Button onClick={handleExport} disabled={isBusy} variant="outline">
+            Download Save File
+          </Button>
+          <Button asChild variant="outline" disabled={isBusy}>
+            <label className="cursor-pointer">
+              Import Save File…
+              <input type="file" accept=".json,application/json" onChange={handleOpen} className="hidden" />
+            </label>
+          </Button>
+        </div>
+      </section>
+
+      <section className="flex flex-col gap-3">
+        <h2 className="text-xl font-bold text-gray-800">Transfer Code</h2>
+        <p className="text-gray-600">
+          Move your save to another browser: get a code here and enter it there within ten minutes.
+        </p>
+        <div className="flex flex-wrap items-start gap-10">
+          <div className="flex flex-col gap-2">
+            <Button onClick={handleCreateCode} disabled={isBusy} variant="outline">
+              Get Transfer Code
+            </Button>
+            {transfer && (
+              <>
+                <InputOTP maxLength={TRANSFER_CODE_LENGTH} value={transfer.code} readOnly>
+                  <TransferCodeSlots />
+                </InputOTP>
+                <p className="text-sm text-gray-500">
+                  Expires at {new Date(transfer.expiresAt).toLocaleTimeString(undefined, { timeStyle: "short" })}
+                </p>
+              </>
+            )}
+          </div>
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="transfer-code">Enter a code from another browser</Label>
+            <InputOTP
+              id="transfer-code"
+              maxLength={TRANSFER_CODE_LENGTH}
+              pattern={REGEXP_ONLY_DIGITS_AND_CHARS}
+              value={code}
+              onChange={(value) => setCode(value.toUpperCase())}
+              onComplete={handleRedeemCode}
+              disabled={isBusy}
+            >
+              <TransferCodeSlots />
+            </InputOTP>
+          </div>
+        </div>
+      </section>
+
+      {pending && (
+        <section className="flex flex-col gap-3 rounded-lg border border-yellow-500 p-4">
+          <h2 className="text-xl font-bold text-gray-800">Import from {pending.source}</h2>
+          <p className="text-gray-600">{describeSave(pending.save)}</p>
+          <RadioGroup value={strategy} onValueChange={(value) => setStrategy(value as ImportStrategy)}>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="merge" id="import-merge" />
+              <Label htmlFor="import-merge">Merge: keep the best of both saves</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="replace" id="import-replace" />
+              <Label htmlFor="import-replace">Replace: throw away this browser&apos;s save and use this one</Label>
+            </div>
+          </RadioGroup>
+          <div className="flex gap-4">
+            <Button onClick={handleImport} disabled={isBusy} className="bg-yellow-500 hover:bg-yellow-600">
+              Import
+            </Button>
+            <Button onClick={() => setPending(null)} disabled={isBusy} variant="outline">
+              Cancel
+            </Button>
+          </div>
+        </section>
+      )}
+
+      {message && <p className={message.isError ? "text-sm text-red-600" : "text-sm text-green-700"}>{message.text}</p>}
+    </div>
+  )
+}
+
+function TransferCodeSlots() {
+  return (
+    <>
+      {[0, TRANSFER_CODE_LENGTH / 2].map((start) => (
+        <InputOTPGroup key={start}>
+          {Array.from({ length: TRANSFER_CODE_LENGTH / 2 }, (_, index) => (
+            <InputOTPSlot key={index} index={start + index} />
+          ))}
+        </InputOTPGroup>
+      ))}
+    </>
+  )
+}
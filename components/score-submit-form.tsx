@@ -0,0 +1,70 @@
+"use client"
+
+import { type FormEvent, useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import type { Replay } from "@/lib/game/replay"
+import { getActiveProfile, loadSaveData, saveSettings } from "@/lib/game/save-store"
+import { type RankedScoreEntry, ScoreSubmissionError, submitScore } from "@/lib/leaderboard"
+
+interface ScoreSubmitFormProps {
+  replay: Replay // The server re-simulates this to verify the score
+  day?: string // Set for a ranked Daily Challenge run, which goes on that day's board
+  onSubmitted: (entry: RankedScoreEntry) => void
+}
+
+export default function ScoreSubmitForm({ replay, day, onSubmitted }: ScoreSubmitFormProps) {
+  const [name, setName] = useState("")
+  const [status, setStatus] = useState<"idle" | "submitting" | "error">("idle")
+  const [errorMessage, setErrorMessage] = useState<string | null>(null)
+  const [submittedEntry, setSubmittedEntry] = useState<RankedScoreEntry | null>(null)
+
+  // Remember the name between runs, starting from the profile's name
+  useEffect(() => {
+    loadSaveData().then(({ settings }) => setName(settings.playerName ?? getActiveProfile().name))
+  }, [])
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+    const trimmedName = name.trim()
+    if (!trimmedName) return
+
+    setStatus("submitting")
+    try {
+      const entry = await submitScore(trimmedName, replay, day)
+      saveSettings({ playerName: trimmedName })
+      setSubmittedEntry(entry)
+      setStatus("idle")
+      onSubmitted(entry)
+    } catch (error) {
+      console.error("Error submitting score:", error)
+      setErrorMessage(error instanceof ScoreSubmissionError ? error.message : "Couldn't submit, try again")
+      setStatus("error")
+    }
+  }
+
+  if (submittedEntry) {
+    return (
+      <p className="text-gray-700 mb-4">
+        Submitted! Ranked #{submittedEntry.rank} {day ? "on today's challenge" : "all time"}.
+      </p>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="flex gap-2 mb-4 items-center">
+      <Input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="Your name"
+        maxLength={20}
+        className="w-48 bg-white"
+        aria-label="Player name"
+      />
+      <Button type="submit" variant="outline" disabled={status === "submitting" || !name.trim()}>
+        {status === "submitting" ? "Submitting…" : "Submit score"}
+      </Button>
+      {status === "error" && <span className="max-w-48 text-sm text-red-600">{errorMessage}</span>}
+    </form>
+  )
+}
@@ -0,0 +1,38 @@
+"use client"
+
+import { useState } from "react"
+import { Button, type ButtonProps } from "@/components/ui/button"
+import { type SharedCourse, createShareUrl } from "@/lib/game/share-link"
+
+interface ShareLinkButtonProps {
+  course: SharedCourse
+  label?: string
+  size?: ButtonProps["size"]
+  disabled?: boolean
+}
+
+// Copy a link that opens this exact course, e.g. to dare someone to beat a score
+export default function ShareLinkButton({
+  course,
+  label = "Copy Challenge Link",
+  size,
+  disabled = false,
+}: ShareLinkButtonProps) {
+  const [status, setStatus] = useState<"idle" | "copied" | "error">("idle")
+
+  const handleClick = async () => {
+    try {
+      await navigator.clipboard.writeText(await createShareUrl(course))
+      setStatus("copied")
+    } catch (error) {
+      console.error("Error copying share link:", error)
+      setStatus("error")
+    }
+  }
+
+  return (
+    <Button onClick={handleClick} size={size} disabled={disabled} variant="outline">
+      {status === "copied" ? "Link Copied!" : status === "error" ? "Couldn't Copy Link" : label}
+    </Button>
+  )
+}
@@ -0,0 +1,35 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import GameCanvas from "@/components/game-canvas"
+import { type SharedCourse, ShareLinkError, parseShareHash } from "@/lib/game/share-link"
+
+// The game, opened on the course in the URL hash when the page was reached through a share link
+export default function SharedCourseGame() {
+  const [link, setLink] = useState<{ key: number; course: SharedCourse | null }>({ key: 0, course: null })
+  const [linkError, setLinkError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const readHash = async () => {
+      try {
+        const sharedCourse = await parseShareHash(window.location.hash)
+        setLinkError(null)
+        if (sharedCourse) setLink({ key: Date.now(), course: sharedCourse })
+      } catch (error) {
+        console.error("Error reading share link:", error)
+        setLinkError(error instanceof ShareLinkError ? error.message : "This link couldn't be opened")
+      }
+    }
+
+    readHash()
+    window.addEventListener("hashchange", readHash)
+    return () => window.removeEventListener("hashchange", readHash)
+  }, [])
+
+  return (
+    <>
+      {linkError && <p className="mb-4 text-sm text-red-600">{linkError}</p>}
+      <GameCanvas key={link.key} sharedCourse={link.course} />
+    </>
+  )
+}
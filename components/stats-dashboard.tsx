@@ -0,0 +1,264 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Bar, BarChart, CartesianGrid, Cell, Line, LineChart, Pie, PieChart, XAxis, YAxis } from "recharts"
+import ProfileAvatar from "@/components/profile-avatar"
+import {
+  type ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { GAME_MODES, type GameMode, getModeDefinition } from "@/lib/game/modes"
+import type { Profile } from "@/lib/game/profiles"
+import { loadRunLogs } from "@/lib/game/run-log"
+import {
+  type RunSummary,
+  getAverageSurvival,
+  getDailyActivity,
+  getEndCauseBreakdown,
+  getScoreTrend,
+  getTokenStats,
+  summarizeRuns,
+} from "@/lib/game/run-stats"
+import { getActiveProfile, loadSaveData } from "@/lib/game/save-store"
+import { getTokenDefinition } from "@/lib/game/tokens"
+
+const ALL_MODES = "all"
+
+const SCORE_CHART_CONFIG = {
+  score: { label: "Score", color: "hsl(var(--chart-2))" },
+  average: { label: "Average of last 10", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig
+
+const ACTIVITY_CHART_CONFIG = {
+  runs: { label: "Runs", color: "hsl(var(--chart-1))" },
+  averageSurvival: { label: "Average survival", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig
+
+const END_CAUSE_CHART_CONFIG = {
+  runs: { label: "Runs" },
+  ceiling: { label: "Ceiling", color: "hsl(var(--chart-1))" },
+  floor: { label: "Floor", color: "hsl(var(--chart-2))" },
+  top_gate: { label: "Top gate", color: "hsl(var(--chart-3))" },
+  bottom_gate: { label: "Bottom gate", color: "hsl(var(--chart-4))" },
+  time_up: { label: "Time up", color: "hsl(var(--chart-5))" },
+  finished: { label: "Finished", color: "#8dc351" },
+  quit: { label: "Quit", color: "#9ca3af" },
+} satisfies ChartConfig
+
+const TOKEN_CHART_CONFIG = {
+  pickupsPerMinute: { label: "Pickups per minute" },
+  uptime: { label: "Effect uptime" },
+  deaths: { label: "Crashes" },
+} satisfies ChartConfig
+
+function formatSeconds(value: unknown) {
+  return `${Number(value).toFixed(1)}s`
+}
+
+function formatShare(value: unknown) {
+  return `${Math.round(Number(value) * 100)}%`
+}
+
+function StatCard({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-lg border-2 border-gray-200 bg-white p-4">
+      <p className="text-sm text-gray-500">{label}</p>
+      <p className="text-2xl font-bold text-gray-800">{value}</p>
+    </div>
+  )
+}
+
+interface ChartSectionProps {
+  title: string
+  description: string
+  children: React.ReactNode
+}
+
+function ChartSection({ title, description, children }: ChartSectionProps) {
+  return (
+    <section>
+      <h2 className="text-lg font-semibold text-gray-800">{title}</h2>
+      <p className="mb-2 text-sm text-gray-500">{description}</p>
+      {children}
+    </section>
+  )
+}
+
+// Charts over the active profile's logged runs
+export default function StatsDashboard() {
+  const [runs, setRuns] = useState<RunSummary[] | null>(null)
+  const [profile, setProfile] = useState<Profile | null>(null)
+  const [mode, setMode] = useState<GameMode | typeof ALL_MODES>(ALL_MODES)
+
+  useEffect(() => {
+    let cancelled = false
+    loadSaveData()
+      .then(() => {
+        if (!cancelled) setProfile(getActiveProfile())
+        return loadRunLogs()
+      })
+      .then((logs) => {
+        if (!cancelled) setRuns(summarizeRuns(logs))
+      })
+      .catch((e) => {
+        console.error("Error loading run logs:", e)
+        if (!cancelled) setRuns([])
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const shownRuns = useMemo(
+    () => (runs ?? []).filter((run) => mode === ALL_MODES || run.mode === mode),
+    [runs, mode],
+  )
+
+  if (!runs) {
+    return <p className="text-gray-600">Loading…</p>
+  }
+
+  const tokenStats = getTokenStats(shownRuns)
+  const endCauses = getEndCauseBreakdown(shownRuns).map((slice) => ({ ...slice, fill: `var(--color-${slice.cause})` }))
+
+  return (
+    <div className="flex w-full max-w-4xl flex-col gap-8">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          {profile && <ProfileAvatar profile={profile} />}
+          <p className="text-gray-700">
+            {profile && <span className="font-bold">{profile.name}: </span>}
+            every run logged so far
+          </p>
+        </div>
+        <Select value={mode} onValueChange={(value) => setMode(value as GameMode | typeof ALL_MODES)}>
+          <SelectTrigger className="w-48 bg-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_MODES}>All modes</SelectItem>
+            {GAME_MODES.map((option) => (
+              <SelectItem key={option} value={option}>
+                {getModeDefinition(option).name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {shownRuns.length === 0 ? (
+        <p className="text-gray-600">No runs logged yet. Play a few and come back.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-4">
+            <StatCard label="Runs" value={String(shownRuns.length)} />
+            <StatCard label="Best score" value={String(Math.max(...shownRuns.map((run) => run.score)))} />
+            <StatCard label="Average survival" value={formatSeconds(getAverageSurvival(shownRuns))} />
+          </div>
+
+          <ChartSection title="Score over time" description="Every run in order; the line is the recent average.">
+            <ChartContainer config={SCORE_CHART_CONFIG} className="h-72 w-full">
+              <LineChart data={getScoreTrend(shownRuns)}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="run" />
+                <YAxis />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Line dataKey="score" stroke="var(--color-score)" strokeWidth={0} dot={{ r: 2 }} />
+                <Line dataKey="average" stroke="var(--color-average)" dot={false} type="monotone" />
+              </LineChart>
+            </ChartContainer>
+          </ChartSection>
+
+          <ChartSection title="Runs per day" description="How much was played each day, and how long runs lasted.">
+            <div className="grid gap-4 md:grid-cols-2">
+              <ChartContainer config={ACTIVITY_CHART_CONFIG} className="h-60 w-full">
+                <BarChart data={getDailyActivity(shownRuns)}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="day" />
+                  <YAxis allowDecimals={false} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="runs" fill="var(--color-runs)" />
+                </BarChart>
+              </ChartContainer>
+              <ChartContainer config={ACTIVITY_CHART_CONFIG} className="h-60 w-full">
+                <LineChart data={getDailyActivity(shownRuns)}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="day" />
+                  <YAxis tickFormatter={formatSeconds} />
+                  <ChartTooltip content={<ChartTooltipContent formatter={(value) => formatSeconds(value)} />} />
+                  <Line dataKey="averageSurvival" stroke="var(--color-averageSurvival)" type="monotone" />
+                </LineChart>
+              </ChartContainer>
+            </div>
+          </ChartSection>
+
+          <ChartSection title="How runs ended" description="What brought each run to an end.">
+            <ChartContainer config={END_CAUSE_CHART_CONFIG} className="mx-auto h-72 w-full">
+              <PieChart>
+                <ChartTooltip content={<ChartTooltipContent nameKey="cause" hideLabel />} />
+                <Pie data={endCauses} dataKey="runs" nameKey="cause" />
+                <ChartLegend content={<ChartLegendContent nameKey="cause" />} />
+              </PieChart>
+            </ChartContainer>
+          </ChartSection>
+
+          <ChartSection title="Tokens" description="How often each token is picked up, and how long its effect runs.">
+            <div className="grid gap-4 md:grid-cols-2">
+              <ChartContainer config={TOKEN_CHART_CONFIG} className="h-60 w-full">
+                <BarChart data={tokenStats}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="name" />
+                  <YAxis />
+                  <ChartTooltip content={<ChartTooltipContent formatter={(value) => Number(value).toFixed(2)} />} />
+                  <Bar dataKey="pickupsPerMinute">
+                    {tokenStats.map(({ tokenType }) => (
+                      <Cell key={tokenType} fill={getTokenDefinition(tokenType).color} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ChartContainer>
+              <ChartContainer config={TOKEN_CHART_CONFIG} className="h-60 w-full">
+                <BarChart data={tokenStats}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="name" />
+                  <YAxis tickFormatter={formatShare} />
+                  <ChartTooltip content={<ChartTooltipContent formatter={(value) => formatShare(value)} />} />
+                  <Bar dataKey="uptime">
+                    {tokenStats.map(({ tokenType }) => (
+                      <Cell key={tokenType} fill={getTokenDefinition(tokenType).color} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ChartContainer>
+            </div>
+          </ChartSection>
+
+          <ChartSection
+            title="Crashes under an effect"
+            description="Which tokens' effects were running when a run crashed."
+          >
+            <ChartContainer config={TOKEN_CHART_CONFIG} className="h-60 w-full">
+              <BarChart data={tokenStats}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="name" />
+                <YAxis allowDecimals={false} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="deaths">
+                  {tokenStats.map(({ tokenType }) => (
+                    <Cell key={tokenType} fill={getTokenDefinition(tokenType).color} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ChartContainer>
+          </ChartSection>
+        </>
+      )}
+    </div>
+  )
+}
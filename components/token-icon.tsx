@@ -0,0 +1,33 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import { cn } from "@/lib/utils"
+import { type TokenType, drawTokenIcon } from "@/lib/game/tokens"
+
+interface TokenIconProps {
+  tokenType: TokenType
+  size?: number // Rendered width and height in CSS pixels
+  className?: string
+}
+
+// Renders a token with the same icon renderer the game canvas uses
+export default function TokenIcon({ tokenType, size = 40, className }: TokenIconProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const ctx = canvas?.getContext("2d")
+    if (!canvas || !ctx) return
+
+    // Draw at device resolution so the icon stays crisp on high-DPI screens
+    const pixelRatio = window.devicePixelRatio || 1
+    canvas.width = size * pixelRatio
+    canvas.height = size * pixelRatio
+    ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0)
+    ctx.clearRect(0, 0, size, size)
+    // Leave room for glows drawn just outside the coin
+    drawTokenIcon(ctx, tokenType, size / 2, size / 2, size / 2 - 2)
+  }, [tokenType, size])
+
+  return <canvas ref={canvasRef} style={{ width: size, height: size }} className={cn("mx-auto", className)} />
+}
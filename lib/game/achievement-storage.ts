@@ -0,0 +1,58 @@
+import {
+  ACHIEVEMENTS,
+  type AchievementDefinition,
+  type AchievementRunStats,
+  getAchievementProgress,
+} from "./achievements"
+import { getSaveData, updateSaveData } from "./save-store"
+
+// The player's achievements: progress toward each, and when it was unlocked
+
+export interface AchievementResult {
+  progress: number // Best run or running total, without the run in progress
+  unlockedAt: string | null
+}
+
+export type AchievementProgress = Record<string, AchievementResult>
+
+export function loadAchievements(): AchievementProgress {
+  return getSaveData().achievements
+}
+
+export function isAchievementUnlocked(progress: AchievementProgress, achievementId: string) {
+  return progress[achievementId]?.unlockedAt != null
+}
+
+// Unlock every achievement the run in progress has reached and return the ones
+// unlocked just now. Progress itself is only stored once the run is over.
+export function unlockAchievements(stats: AchievementRunStats): AchievementDefinition[] {
+  const achievements = loadAchievements()
+  const reached = ACHIEVEMENTS.filter(
+    (definition) =>
+      !isAchievementUnlocked(achievements, definition.id) &&
+      getAchievementProgress(definition, achievements[definition.id]?.progress ?? 0, stats) >= definition.goal,
+  )
+  if (reached.length === 0) return reached
+
+  const unlockedAt = new Date().toISOString()
+  updateSaveData((data) => {
+    for (const definition of reached) {
+      data.achievements[definition.id] = { progress: data.achievements[definition.id]?.progress ?? 0, unlockedAt }
+    }
+  })
+  return reached
+}
+
+// Add a finished run to every achievement's progress. Returns the achievements
+// the run unlocked that weren't already unlocked while it was played.
+export function saveAchievementRun(stats: AchievementRunStats): AchievementDefinition[] {
+  const unlocked = unlockAchievements(stats)
+  updateSaveData((data) => {
+    for (const definition of ACHIEVEMENTS) {
+      const result = data.achievements[definition.id] ?? { progress: 0, unlockedAt: null }
+      result.progress = getAchievementProgress(definition, result.progress, stats)
+      data.achievements[definition.id] = result
+    }
+  })
+  return unlocked
+}
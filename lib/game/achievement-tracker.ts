@@ -0,0 +1,36 @@
+import { saveAchievementRun, unlockAchievements } from "./achievement-storage"
+import {
+  type AchievementDefinition,
+  type AchievementRunStats,
+  createAchievementRunStats,
+  trackAchievementEvent,
+} from "./achievements"
+import type { GameEventBus } from "./game-events"
+
+// Follow the player's runs on the event bus, unlocking achievements the moment
+// they are reached and adding each run to the progress once it is over. Runs a
+// bot flies don't count. Returns the function that stops tracking.
+export function trackAchievements(
+  events: GameEventBus,
+  onUnlock: (definitions: AchievementDefinition[]) => void,
+): () => void {
+  let stats: AchievementRunStats | null = null
+
+  return events.onAny((event) => {
+    if (event.type === "run_started") {
+      stats = event.kind === "bot" ? null : createAchievementRunStats()
+      return
+    }
+    if (!stats) return
+
+    trackAchievementEvent(stats, event)
+    const unlocked = unlockAchievements(stats)
+    if (unlocked.length > 0) onUnlock(unlocked)
+
+    if (event.type === "game_over") {
+      const unlockedAtEnd = saveAchievementRun(stats)
+      if (unlockedAtEnd.length > 0) onUnlock(unlockedAtEnd)
+      stats = null
+    }
+  })
+}
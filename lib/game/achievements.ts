@@ -0,0 +1,220 @@
+import type { DeathCause, RunEndCause, SimulationEvent } from "./simulation"
+import { TOKEN_TYPES } from "./tokens"
+import { type TokenCounts, createEmptyTokenCounts } from "./types"
+
+// Achievements are earned by playing: the game's events during a run are
+// tallied into run stats, and each achievement measures its progress from them.
+// Some ask for a feat within one run, others add up over every run played.
+
+export interface AchievementRunStats {
+  gatesPassed: number
+  difficultyLevel: number
+  tokenCounts: TokenCounts
+  activeEffects: TokenCounts // Effects running right now, counting stacked copies
+  mostEffectsAtOnce: number // Most different effects that were running together
+  effectsSurvived: TokenCounts // Effects that ran out with the rocket still flying
+  nearMisses: number
+  nearMissStreak: number // Near misses on the last gates in a row
+  longestNearMissStreak: number
+  lastGateWasNearMiss: boolean
+  crashes: Record<DeathCause, number> // Including the ones Zen lets the rocket fly on from
+  endCause: RunEndCause | null
+}
+
+export type AchievementScope = "run" | "total"
+
+export interface AchievementDefinition {
+  id: string
+  name: string
+  description: string
+  goal: number
+  scope: AchievementScope // A single run's best counts, or every run added together
+  measure: (stats: AchievementRunStats) => number
+}
+
+export const ACHIEVEMENTS = [
+  {
+    id: "lift_off",
+    name: "Lift Off",
+    description: "Pass 10 gates in one run",
+    goal: 10,
+    scope: "run",
+    measure: ({ gatesPassed }) => gatesPassed,
+  },
+  {
+    id: "diamond_hands",
+    name: "Diamond Hands",
+    description: "Pass 100 gates in one run",
+    goal: 100,
+    scope: "run",
+    measure: ({ gatesPassed }) => gatesPassed,
+  },
+  {
+    id: "hodler",
+    name: "HODLer",
+    description: "Pass 1,000 gates in total",
+    goal: 1000,
+    scope: "total",
+    measure: ({ gatesPassed }) => gatesPassed,
+  },
+  {
+    id: "bull_run",
+    name: "Bull Run",
+    description: "Reach difficulty level 5 in one run",
+    goal: 5,
+    scope: "run",
+    measure: ({ difficultyLevel }) => difficultyLevel,
+  },
+  {
+    id: "diversified",
+    name: "Diversified",
+    description: `Collect all ${TOKEN_TYPES.length} tokens in one run`,
+    goal: TOKEN_TYPES.length,
+    scope: "run",
+    measure: ({ tokenCounts }) => TOKEN_TYPES.filter((tokenType) => tokenCounts[tokenType] > 0).length,
+  },
+  {
+    id: "whale",
+    name: "Whale",
+    description: "Collect 20 tokens in one run",
+    goal: 20,
+    scope: "run",
+    measure: ({ tokenCounts }) => countTokens(tokenCounts),
+  },
+  {
+    id: "bag_holder",
+    name: "Bag Holder",
+    description: "Collect 250 tokens in total",
+    goal: 250,
+    scope: "total",
+    measure: ({ tokenCounts }) => countTokens(tokenCounts),
+  },
+  {
+    id: "chaos_theory",
+    name: "Chaos Theory",
+    description: "Survive BCH chaos 5 times in one run",
+    goal: 5,
+    scope: "run",
+    measure: ({ effectsSurvived }) => effectsSurvived.bch,
+  },
+  {
+    id: "leverage",
+    name: "Leverage",
+    description: "Have 3 different token effects running at once",
+    goal: 3,
+    scope: "run",
+    measure: ({ mostEffectsAtOnce }) => mostEffectsAtOnce,
+  },
+  {
+    id: "close_shave",
+    name: "Close Shave",
+    description: "Scrape through 3 gates in a row with a near miss",
+    goal: 3,
+    scope: "run",
+    measure: ({ longestNearMissStreak }) => longestNearMissStreak,
+  },
+  {
+    id: "thrill_seeker",
+    name: "Thrill Seeker",
+    description: "Get 50 near misses in total",
+    goal: 50,
+    scope: "total",
+    measure: ({ nearMisses }) => nearMisses,
+  },
+  {
+    id: "to_the_moon",
+    name: "To the Moon",
+    description: "Fly into the ceiling",
+    goal: 1,
+    scope: "run",
+    measure: ({ crashes }) => Math.min(crashes.ceiling, 1),
+  },
+  {
+    id: "rug_pulled",
+    name: "Rug Pulled",
+    description: "Crash into the floor 10 times",
+    goal: 10,
+    scope: "total",
+    measure: ({ crashes }) => crashes.floor,
+  },
+  {
+    id: "time_in_the_market",
+    name: "Time in the Market",
+    description: "Fly a Time Attack run until the clock runs out",
+    goal: 1,
+    scope: "run",
+    measure: ({ endCause }) => (endCause === "time_up" ? 1 : 0),
+  },
+] as const satisfies readonly AchievementDefinition[]
+
+export type AchievementId = (typeof ACHIEVEMENTS)[number]["id"]
+
+function countTokens(tokenCounts: TokenCounts) {
+  return TOKEN_TYPES.reduce((total, tokenType) => total + tokenCounts[tokenType], 0)
+}
+
+export function createAchievementRunStats(): AchievementRunStats {
+  return {
+    gatesPassed: 0,
+    difficultyLevel: 1,
+    tokenCounts: createEmptyTokenCounts(),
+    activeEffects: createEmptyTokenCounts(),
+    mostEffectsAtOnce: 0,
+    effectsSurvived: createEmptyTokenCounts(),
+    nearMisses: 0,
+    nearMissStreak: 0,
+    longestNearMissStreak: 0,
+    lastGateWasNearMiss: false,
+    crashes: { ceiling: 0, floor: 0, top_gate: 0, bottom_gate: 0 },
+    endCause: null,
+  }
+}
+
+// Tally one of the run's events into its stats
+export function trackAchievementEvent(stats: AchievementRunStats, event: SimulationEvent) {
+  switch (event.type) {
+    case "gate_passed":
+      // A gate's near miss follows its gate_passed, so the streak breaks on the gate after one without
+      if (!stats.lastGateWasNearMiss) stats.nearMissStreak = 0
+      stats.lastGateWasNearMiss = false
+      stats.gatesPassed = event.gatesPassed
+      break
+    case "near_miss":
+      stats.nearMisses = event.nearMisses
+      stats.nearMissStreak++
+      stats.longestNearMissStreak = Math.max(stats.longestNearMissStreak, stats.nearMissStreak)
+      stats.lastGateWasNearMiss = true
+      break
+    case "token_collected":
+      stats.tokenCounts[event.tokenType] = event.count
+      break
+    case "effect_started":
+      stats.activeEffects[event.tokenType]++
+      stats.mostEffectsAtOnce = Math.max(
+        stats.mostEffectsAtOnce,
+        TOKEN_TYPES.filter((tokenType) => stats.activeEffects[tokenType] > 0).length,
+      )
+      break
+    case "effect_ended":
+      stats.activeEffects[event.tokenType]--
+      if (event.reason === "expired") stats.effectsSurvived[event.tokenType]++
+      break
+    case "difficulty_up":
+      stats.difficultyLevel = event.level
+      break
+    case "collision":
+      stats.crashes[event.cause]++
+      break
+    case "game_over":
+      stats.endCause = event.cause
+      if (event.cause in stats.crashes) stats.crashes[event.cause as DeathCause]++
+      break
+  }
+}
+
+// Progress toward an achievement: what was stored before the run, combined with the run so far
+export function getAchievementProgress(definition: AchievementDefinition, stored: number, stats?: AchievementRunStats) {
+  if (!stats) return stored
+  const measured = definition.measure(stats)
+  return definition.scope === "total" ? stored + measured : Math.max(stored, measured)
+}
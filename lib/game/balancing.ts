@@ -0,0 +1,156 @@
+import { SIMULATION_TICK_RATE } from "./constants"
+import { type BenchmarkReport, type BotRunResult, MAX_BENCHMARK_SEEDS, runBot, summarizeRuns } from "./bot-benchmark"
+import { createAutopilot } from "./controller"
+import { DEFAULT_RULES, type NumericRule, gameRulesSchema } from "./rules"
+import type { DeathCause } from "./simulation"
+
+// Balancing harness: sweep one rule across a range, let the autopilot
+// play the same seeds at every value, and shape the results for charting.
+
+export type BalanceParameter = NumericRule
+
+export const BALANCE_PARAMETERS: { key: BalanceParameter; label: string }[] = [
+  { key: "gravity", label: "Gravity" },
+  { key: "bounceVelocity", label: "Bounce velocity" },
+  { key: "difficultyIncrease", label: "Difficulty increase" },
+  { key: "difficultyGateThreshold", label: "Difficulty gate threshold" },
+  { key: "gateSpeed", label: "Gate speed" },
+  { key: "initialGateGap", label: "Gate gap" },
+  { key: "narrowGateGap", label: "Narrow gate gap" },
+  { key: "narrowGateChance", label: "Narrow gate chance" },
+  { key: "tokenSpawnChance", label: "Token spawn chance" },
+]
+
+export const DEATH_CAUSES: DeathCause[] = ["ceiling", "floor", "top_gate", "bottom_gate"]
+
+export interface SweepOptions {
+  parameter: BalanceParameter
+  values: number[]
+  seeds: number
+  startSeed?: number
+  maxTicks?: number
+}
+
+export interface SweepPoint {
+  value: number
+  report: BenchmarkReport
+}
+
+// How long the bot plays before yielding back to the browser
+const SLICE_MS = 16
+
+export class SweepError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "SweepError"
+  }
+}
+
+// `steps` evenly spaced values from min to max, inclusive
+export function getSweepValues(min: number, max: number, steps: number) {
+  if (steps <= 1) return [min]
+  return Array.from({ length: steps }, (_, i) => Number((min + ((max - min) * i) / (steps - 1)).toPrecision(6)))
+}
+
+// The rules for each value of the sweep, checked the way the benchmark API
+// checks them so a sweep can't play rules the game would refuse
+function getSweepRules(parameter: BalanceParameter, values: number[]) {
+  const label = BALANCE_PARAMETERS.find((entry) => entry.key === parameter)?.label ?? parameter
+  return values.map((value) => {
+    const rules = gameRulesSchema.safeParse({ ...DEFAULT_RULES, [parameter]: value })
+    if (!rules.success) {
+      throw new SweepError(`${label} ${value}: ${rules.error.issues.map((issue) => issue.message).join(", ")}`)
+    }
+    return { value, rules: rules.data }
+  })
+}
+
+// Play every value of the sweep over the same seeds, clamped to 1..MAX_BENCHMARK_SEEDS.
+// Yields to the event loop every SLICE_MS so a page running it stays
+// responsive; onProgress gets 0..1. Throws SweepError for rules out of range.
+export async function runSweep(
+  { parameter, values, seeds, startSeed = 1, maxTicks }: SweepOptions,
+  onProgress?: (progress: number) => void,
+): Promise<SweepPoint[]> {
+  const sweepRules = getSweepRules(parameter, values)
+  const seedCount = Math.min(MAX_BENCHMARK_SEEDS, Math.max(1, Math.floor(seeds) || 1))
+  const points: SweepPoint[] = []
+  const totalRuns = values.length * seedCount
+  let completedRuns = 0
+  let sliceStart = performance.now()
+
+  for (const { value, rules } of sweepRules) {
+    const results: BotRunResult[] = []
+    let controllerName = ""
+
+    for (let i = 0; i < seedCount; i++) {
+      const controller = createAutopilot()
+      controllerName = controller.name
+      results.push(runBot(controller, startSeed + i, rules, maxTicks))
+
+      completedRuns++
+      if (performance.now() - sliceStart >= SLICE_MS) {
+        onProgress?.(completedRuns / totalRuns)
+        await new Promise((resolve) => setTimeout(resolve, 0))
+        sliceStart = performance.now()
+      }
+    }
+
+    points.push({ value, report: summarizeRuns(controllerName, rules, results) })
+  }
+
+  onProgress?.(1)
+  return points
+}
+
+// Chart rows are keyed by series, one series per swept value
+export function getSeriesKey(index: number) {
+  return `value${index}`
+}
+
+// Share of runs (0..1) ending in each score bucket, per swept value
+export function getScoreDistribution(points: SweepPoint[], bucketSize: number) {
+  const maxScore = Math.max(0, ...points.flatMap((point) => point.report.results.map((result) => result.score)))
+  const bucketCount = Math.floor(maxScore / bucketSize) + 1
+
+  return Array.from({ length: bucketCount }, (_, bucket) => {
+    const row: Record<string, number | string> = {
+      bucket: `${bucket * bucketSize}–${(bucket + 1) * bucketSize - 1}`,
+    }
+    points.forEach((point, index) => {
+      const inBucket = point.report.results.filter((result) => Math.floor(result.score / bucketSize) === bucket)
+      row[getSeriesKey(index)] = inBucket.length / Math.max(1, point.report.runs)
+    })
+    return row
+  })
+}
+
+// Share of runs (0..1) still alive after each number of seconds, per swept value
+export function getSurvivalCurves(points: SweepPoint[], stepSeconds = 5) {
+  const longestTicks = Math.max(0, ...points.flatMap((point) => point.report.results.map((result) => result.ticks)))
+  const lastSecond = Math.ceil(longestTicks / SIMULATION_TICK_RATE / stepSeconds) * stepSeconds
+
+  const rows: Record<string, number>[] = []
+  for (let second = 0; second <= lastSecond; second += stepSeconds) {
+    const row: Record<string, number> = { second }
+    points.forEach((point, index) => {
+      const alive = point.report.results.filter((result) => result.ticks >= second * SIMULATION_TICK_RATE)
+      row[getSeriesKey(index)] = alive.length / Math.max(1, point.report.runs)
+    })
+    rows.push(row)
+  }
+  return rows
+}
+
+// How each swept value's runs ended, as shares of its runs
+export function getDeathCauseBreakdown(points: SweepPoint[]) {
+  return points.map((point) => {
+    const row: Record<string, number | string> = { value: String(point.value) }
+    for (const cause of DEATH_CAUSES) {
+      row[cause] = point.report.deathCauses[cause] / Math.max(1, point.report.runs)
+    }
+    row.survived = point.report.survivedRuns / Math.max(1, point.report.runs)
+    return row
+  })
+}
+
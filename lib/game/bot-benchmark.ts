@@ -0,0 +1,163 @@
+import { z } from "zod"
+import { SIMULATION_TICK_RATE } from "./constants"
+import { type Controller, createAutopilot, getControllerInput } from "./controller"
+import {
+  DEFAULT_PRESET,
+  DEFAULT_RULES,
+  DIFFICULTY_PRESETS,
+  type GameRules,
+  PRESET_RULES,
+  gameRulesSchema,
+} from "./rules"
+import { type DeathCause, createInitialState, stepSimulation } from "./simulation"
+
+// Headless bot runs: play a controller over many seeds under given rules and
+// summarise how it did, to measure how hard those rules really are.
+
+export interface BotRunResult {
+  seed: number
+  score: number
+  gatesPassed: number
+  ticks: number
+  deathCause: DeathCause | null // null when the bot was still alive at maxTicks
+}
+
+export interface BenchmarkOptions {
+  seeds: number // How many runs
+  startSeed?: number // Runs use startSeed, startSeed + 1, ...
+  rules?: GameRules
+  maxTicks?: number // Stop a run that is still going after this long
+  createController?: () => Controller // A fresh controller per run, the autopilot by default
+}
+
+// Scores and survival are averaged over the runs that crashed. Runs the bot
+// was still playing at maxTicks have no final score, so they are reported
+// apart rather than dragging the averages down.
+export interface BenchmarkReport {
+  controller: string
+  rules: GameRules
+  runs: number
+  averageScore: number
+  medianScore: number
+  minScore: number
+  maxScore: number
+  averageTicks: number
+  survivedRuns: number // Runs cut off at maxTicks
+  survivedAverageScore: number // Average score of those runs when they were cut off
+  deathCauses: Record<DeathCause, number>
+  results: BotRunResult[]
+}
+
+export const DEFAULT_MAX_TICKS = SIMULATION_TICK_RATE * 60 * 10 // Ten minutes of play
+
+// Most seeds a benchmark may ask for from the API or the balancing harness
+export const MAX_BENCHMARK_SEEDS = 200
+
+// Most ticks one API request may simulate across all its runs. The benchmark
+// runs on the request thread, so this keeps a request to a few seconds;
+// longer benchmarks go through `npm run bench`.
+const MAX_QUERY_TICKS = SIMULATION_TICK_RATE * 60 * 60 // An hour of play
+
+// A preset to start from plus any single rules to override. The merged rules
+// are checked against gameRulesSchema by getBenchmarkRules.
+export const benchmarkRulesSchema = z.object({
+  preset: z.enum(DIFFICULTY_PRESETS).default(DEFAULT_PRESET),
+  gateSpeed: z.coerce.number().optional(),
+  initialGateGap: z.coerce.number().optional(),
+  narrowGateGap: z.coerce.number().optional(),
+  narrowGateChance: z.coerce.number().optional(),
+  gravity: z.coerce.number().optional(),
+  bounceVelocity: z.coerce.number().optional(),
+  difficultyIncrease: z.coerce.number().optional(),
+  difficultyGateThreshold: z.coerce.number().optional(),
+  tokenSpawnChance: z.coerce.number().optional(),
+})
+
+// Query for the benchmark API route. Without maxTicks, runs get as long as
+// the request's tick budget allows, up to DEFAULT_MAX_TICKS.
+export const benchmarkQuerySchema = benchmarkRulesSchema
+  .extend({
+    seeds: z.coerce.number().int().min(1).max(MAX_BENCHMARK_SEEDS).default(50),
+    startSeed: z.coerce.number().int().min(0).default(1),
+    maxTicks: z.coerce.number().int().min(1).max(DEFAULT_MAX_TICKS).optional(),
+    results: z.enum(["true", "false"]).default("false"), // Include every run, not just the summary
+  })
+  .refine(({ seeds, maxTicks }) => maxTicks === undefined || seeds * maxTicks <= MAX_QUERY_TICKS, {
+    message: `seeds × maxTicks may be at most ${MAX_QUERY_TICKS}`,
+    path: ["maxTicks"],
+  })
+  .transform(({ maxTicks, ...query }) => ({
+    ...query,
+    maxTicks: maxTicks ?? Math.min(DEFAULT_MAX_TICKS, Math.floor(MAX_QUERY_TICKS / query.seeds)),
+  }))
+
+export function getBenchmarkRules({ preset, ...overrides }: z.infer<typeof benchmarkRulesSchema>) {
+  const definedOverrides = Object.fromEntries(Object.entries(overrides).filter(([, value]) => value !== undefined))
+  return gameRulesSchema.safeParse({ ...PRESET_RULES[preset], ...definedOverrides })
+}
+
+export function runBot(
+  controller: Controller,
+  seed: number,
+  rules: GameRules = DEFAULT_RULES,
+  maxTicks = DEFAULT_MAX_TICKS,
+): BotRunResult {
+  let state = createInitialState(seed, { rules })
+  while (!state.isGameOver && state.tick < maxTicks) {
+    state = stepSimulation(state, getControllerInput(controller, state)).state
+  }
+
+  return {
+    seed: state.seed,
+    score: state.score,
+    gatesPassed: state.gatesPassed,
+    ticks: state.tick,
+    deathCause: state.deathCause,
+  }
+}
+
+export function benchmarkBot({
+  seeds,
+  startSeed = 1,
+  rules = DEFAULT_RULES,
+  maxTicks = DEFAULT_MAX_TICKS,
+  createController = createAutopilot,
+}: BenchmarkOptions): BenchmarkReport {
+  const results: BotRunResult[] = []
+  let controllerName = ""
+  for (let i = 0; i < seeds; i++) {
+    const controller = createController()
+    controllerName = controller.name
+    results.push(runBot(controller, startSeed + i, rules, maxTicks))
+  }
+
+  return summarizeRuns(controllerName, rules, results)
+}
+
+// Aggregate a set of bot runs into a report
+export function summarizeRuns(controllerName: string, rules: GameRules, results: BotRunResult[]): BenchmarkReport {
+  const crashed = results.filter((result) => result.deathCause !== null)
+  const survived = results.filter((result) => result.deathCause === null)
+  const scores = crashed.map((result) => result.score).sort((a, b) => a - b)
+  const deathCauses: Record<DeathCause, number> = { ceiling: 0, floor: 0, top_gate: 0, bottom_gate: 0 }
+  for (const result of crashed) {
+    if (result.deathCause) deathCauses[result.deathCause]++
+  }
+  const average = (values: number[]) =>
+    values.length ? values.reduce((total, value) => total + value, 0) / values.length : 0
+
+  return {
+    controller: controllerName,
+    rules,
+    runs: results.length,
+    averageScore: average(scores),
+    medianScore: scores.length ? scores[Math.floor(scores.length / 2)] : 0,
+    minScore: scores[0] ?? 0,
+    maxScore: scores[scores.length - 1] ?? 0,
+    averageTicks: average(crashed.map((result) => result.ticks)),
+    survivedRuns: survived.length,
+    survivedAverageScore: average(survived.map((result) => result.score)),
+    deathCauses,
+    results,
+  }
+}
@@ -0,0 +1,40 @@
+import { CAMPAIGN_LEVELS, CAMPAIGN_STARS, type CampaignStar } from "./campaign"
+import { getSaveData, updateSaveData } from "./save-store"
+
+// The player's campaign progress, one entry per level flown
+
+export interface CampaignResult {
+  levelId: string
+  stars: CampaignStar[] // Every star earned so far, not necessarily on the same run
+  bestScore: number
+  attempts: number
+}
+
+export type CampaignProgress = Record<string, CampaignResult>
+
+export function loadCampaignProgress(): CampaignProgress {
+  return getSaveData().campaign
+}
+
+export function isCampaignLevelCleared(progress: CampaignProgress, levelId: string) {
+  return (progress[levelId]?.stars.length ?? 0) > 0
+}
+
+// The first level is always open; every other one opens once the level before it is cleared
+export function isCampaignLevelUnlocked(progress: CampaignProgress, index: number) {
+  if (index === 0) return true
+  return index < CAMPAIGN_LEVELS.length && isCampaignLevelCleared(progress, CAMPAIGN_LEVELS[index - 1].id)
+}
+
+// Record a campaign run and return the updated progress
+export function saveCampaignRun(levelId: string, score: number, stars: CampaignStar[]): CampaignProgress {
+  return updateSaveData((data) => {
+    const result = data.campaign[levelId] ?? { levelId, stars: [], bestScore: 0, attempts: 0 }
+
+    result.attempts += 1
+    result.bestScore = Math.max(result.bestScore, score)
+    result.stars = CAMPAIGN_STARS.filter((star) => result.stars.includes(star) || stars.includes(star))
+
+    data.campaign[levelId] = result
+  }).campaign
+}
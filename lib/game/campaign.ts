@@ -0,0 +1,162 @@
+import { LEVEL_FORMAT_VERSION, type Level, type LevelGate, type SpeedSegment, createLevelGate } from "./level"
+import { DEFAULT_RULES } from "./rules"
+import type { SimulationState } from "./simulation"
+import { TOKEN_TYPES } from "./tokens"
+
+// The campaign: hand-made levels flown in order, each unlocked by clearing the
+// one before it. Every level is flown on Normal and rated with up to three
+// stars, one for each objective below.
+
+export const CAMPAIGN_RULES = DEFAULT_RULES
+
+export const CAMPAIGN_STARS = ["finished", "all_tokens", "no_near_misses"] as const
+export type CampaignStar = (typeof CAMPAIGN_STARS)[number]
+
+export const CAMPAIGN_STAR_LABELS: Record<CampaignStar, string> = {
+  finished: "Finish the level",
+  all_tokens: "Collect every token",
+  no_near_misses: "No near misses",
+}
+
+export interface CampaignLevelDefinition {
+  id: string
+  level: Level
+}
+
+function gate(topHeight: number, overrides: Partial<LevelGate> = {}) {
+  return createLevelGate({ topHeight, ...overrides })
+}
+
+function campaignLevel(
+  id: string,
+  name: string,
+  gates: LevelGate[],
+  speedSegments: SpeedSegment[] = [],
+): CampaignLevelDefinition {
+  return { id, level: { version: LEVEL_FORMAT_VERSION, name, gates, speedSegments } }
+}
+
+export const CAMPAIGN_LEVELS: readonly CampaignLevelDefinition[] = [
+  campaignLevel("first_flight", "First Flight", [
+    gate(225),
+    gate(225),
+    gate(200, { token: "btc" }),
+    gate(225),
+    gate(250),
+    gate(225, { token: "eth" }),
+    gate(200),
+    gate(225),
+  ]),
+  campaignLevel("higher_highs", "Higher Highs", [
+    gate(250),
+    gate(200),
+    gate(150, { token: "btc" }),
+    gate(100),
+    gate(150),
+    gate(200, { token: "tao" }),
+    gate(250),
+    gate(300),
+    gate(350, { token: "eth" }),
+    gate(300),
+  ]),
+  campaignLevel("tight_spread", "Tight Spread", [
+    gate(225),
+    gate(225, { narrow: true }),
+    gate(250, { narrow: true }),
+    gate(200, { token: "btc" }),
+    gate(225, { narrow: true }),
+    gate(275, { narrow: true }),
+    gate(250, { token: "hbar" }),
+    gate(200, { narrow: true }),
+    gate(175, { narrow: true }),
+    gate(200, { narrow: true, token: "eth" }),
+    gate(225, { narrow: true }),
+    gate(225),
+  ]),
+  campaignLevel("volatility", "Volatility", [
+    gate(225, { spacing: 250 }),
+    gate(100, { spacing: 250 }),
+    gate(325, { spacing: 250, token: "bch" }),
+    gate(125, { spacing: 250 }),
+    gate(350, { spacing: 250 }),
+    gate(150, { spacing: 250, token: "btc" }),
+    gate(300, { spacing: 250 }),
+    gate(100, { spacing: 250, token: "tao" }),
+    gate(375, { spacing: 250 }),
+    gate(225, { spacing: 250 }),
+  ]),
+  campaignLevel(
+    "flash_crash",
+    "Flash Crash",
+    [
+      gate(225),
+      gate(200),
+      gate(175, { token: "eth" }),
+      gate(200),
+      gate(250),
+      gate(300, { token: "hbar" }),
+      gate(325),
+      gate(350),
+      gate(375, { token: "btc" }),
+      gate(350),
+      gate(300),
+      gate(250),
+      gate(225, { token: "tao" }),
+      gate(225),
+    ],
+    [
+      { fromGate: 4, speed: 3.2 },
+      { fromGate: 9, speed: 3.8 },
+    ],
+  ),
+  campaignLevel(
+    "to_the_moon",
+    "To the Moon",
+    [
+      gate(225),
+      gate(250, { token: "sol" }),
+      gate(200),
+      gate(175, { narrow: true }),
+      gate(150, { token: "btc" }),
+      gate(125),
+      gate(150, { narrow: true }),
+      gate(200, { token: "eth" }),
+      gate(250),
+      gate(300, { narrow: true }),
+      gate(275, { token: "bch" }),
+      gate(225),
+      gate(175, { narrow: true }),
+      gate(125, { token: "tao" }),
+      gate(100),
+      gate(125, { narrow: true }),
+      gate(175, { token: "hbar" }),
+      gate(225),
+      gate(200, { narrow: true }),
+      gate(225, { token: "btc" }),
+    ],
+    [
+      { fromGate: 6, speed: 3 },
+      { fromGate: 13, speed: 3.4 },
+    ],
+  ),
+]
+
+export function getCampaignLevelIndex(id: string) {
+  return CAMPAIGN_LEVELS.findIndex((definition) => definition.id === id)
+}
+
+// Tokens placed in a level; collecting all of them earns a star
+export function getLevelTokenTotal(level: Level) {
+  return level.gates.filter((levelGate) => levelGate.token !== null).length
+}
+
+// The stars a finished run earned; none unless the level was finished
+export function getCampaignStars(state: SimulationState): CampaignStar[] {
+  if (!state.level || !state.isGameOver || state.gatesPassed < state.level.gates.length) return []
+
+  const collected = TOKEN_TYPES.reduce((total, tokenType) => total + state.tokenCounts[tokenType], 0)
+  const stars: CampaignStar[] = ["finished"]
+  if (collected >= getLevelTokenTotal(state.level)) stars.push("all_tokens")
+  if (state.nearMisses === 0) stars.push("no_near_misses")
+  return stars
+}
@@ -0,0 +1,37 @@
+// Game constants
+export const GAME_WIDTH = 800
+export const GAME_HEIGHT = 600
+export const LINE_SPEED = 2
+export const GATE_SPEED = 2.53 // Increased by 15% from 2.2
+export const DIFFICULTY_INCREASE = 0.1 // 10% speed increase after 15 gates
+export const DIFFICULTY_GATE_THRESHOLD = 15 // Increase difficulty after this many gates
+export const BTC_SPEED_BOOST = 1.1 // Additional 10% speed when BTC is active
+export const SOL_SPEED_BOOST = 2.0 // 100% faster when SOL is active
+export const GATE_WIDTH = 50
+export const GATE_DISTANCE = GATE_WIDTH * 4 // Fixed distance of 4 gate widths
+export const INITIAL_GATE_GAP = 150 // Reduced by 40% from 250
+export const NARROW_GATE_GAP = 120 // Reduced by 40% from 200
+export const GATE_GAP_INCREASE_PERCENT = 50 // Increased from 20% to 50% for more noticeable effect
+export const LINE_X_POSITION = 100 // Fixed x position of the line
+export const BOUNCE_VELOCITY = -5.5 // Increased by 10% from -5
+export const GRAVITY = 0.22 // Increased by 10% from 0.2
+export const TOKEN_COLLECTION_RADIUS = 50 // Increased from 30 to 50 for easier collection
+export const NEAR_MISS_DISTANCE = 8 // Clearing a gate's edge by less than this counts as a near miss
+export const SCREEN_FLASH_DURATION = 150 // Flash duration in milliseconds
+export const BCH_CHAOS_DURATION = 3000 // 3 seconds of chaos for BCH (increased from 1 second)
+export const SOL_EFFECT_DURATION = 5000 // 5 seconds of SOL effect
+export const MIN_VERTICAL_VARIANCE = -100 // Minimum vertical shift for gates
+export const MAX_VERTICAL_VARIANCE = 100 // Maximum vertical shift for gates
+
+// Historical market data mode
+export const MARKET_CHART_MARGIN = 60 // Padding above the highest and below the lowest price
+export const MARKET_MAX_GATE_GAP = 220
+export const MARKET_GAP_VOLATILITY_SCALE = 1500 // Extra gap in pixels per 100% high-low range
+
+// Fixed timestep: physics constants above are tuned per step at 60 steps per second
+export const SIMULATION_TICK_RATE = 60
+export const SIMULATION_STEP_MS = 1000 / SIMULATION_TICK_RATE
+export const MAX_FRAME_DELTA = 250 // Clamp long frames (tab switches, hitches) so we never try to catch up forever
+
+// Bump whenever a change alters how a given seed + inputs plays out, so old replays are not misread
+export const SIMULATION_VERSION = 3
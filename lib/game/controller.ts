@@ -0,0 +1,109 @@
+import { GAME_HEIGHT, GATE_WIDTH, LINE_X_POSITION } from "./constants"
+import type { GameRules } from "./rules"
+import {
+  type EffectFlags,
+  type SimulationInput,
+  type SimulationState,
+  getEffectFlags,
+  getGateGap,
+} from "./simulation"
+import type { TokenType } from "./tokens"
+import type { TokenEffect } from "./types"
+
+// Pluggable players. A controller sees what the player sees each tick and
+// decides whether to bounce; the game loop and the headless bot benchmark
+// both drive the simulation through this interface.
+
+export interface ObservedGate {
+  x: number // Left edge
+  gapTop: number // Top of the opening, with active effects applied
+  gapBottom: number
+  tokenType: TokenType | null
+  hasPassed: boolean
+}
+
+export interface ControllerObservation {
+  tick: number
+  lineY: number
+  lineVelocity: number
+  isAscending: boolean
+  currentSpeed: number
+  gates: ObservedGate[] // Left to right
+  activeEffects: readonly TokenEffect[]
+  flags: EffectFlags
+  rules: GameRules // Physics the run is played with
+}
+
+export interface Controller {
+  name: string
+  // Called once per tick before the step; true means bounce on this tick
+  decide: (observation: ControllerObservation) => boolean
+}
+
+export function observe(state: SimulationState): ControllerObservation {
+  const flags = getEffectFlags(state)
+  return {
+    tick: state.tick,
+    lineY: state.lineY,
+    lineVelocity: state.lineVelocity,
+    isAscending: state.isAscending,
+    currentSpeed: state.currentSpeed,
+    gates: state.gates.map((gate) => ({
+      x: gate.x,
+      gapTop: gate.topHeight,
+      gapBottom: gate.topHeight + getGateGap(gate, flags),
+      tokenType: gate.tokenType,
+      hasPassed: gate.hasPassed,
+    })),
+    activeEffects: state.activeEffects,
+    flags,
+    rules: state.rules,
+  }
+}
+
+// The input a controller gives for the step after `state`
+export function getControllerInput(controller: Controller, state: SimulationState): SimulationInput {
+  return { bounce: controller.decide(observe(state)) }
+}
+
+// Clearance the autopilot keeps from the bottom of an opening
+const AUTOPILOT_MARGIN = 8
+// Lowest the autopilot drops when there is nothing to steer for
+const AUTOPILOT_SCREEN_MARGIN = 100
+// How far ahead (in pixels past the rocket) the autopilot plans for
+const AUTOPILOT_VIEW = 300
+
+// Built-in heuristic player: falls for as long as it can and only bounces when
+// it has to, either to stay above the bottom of the opening it is in or to
+// climb in time for a higher opening coming up
+export function createAutopilot(): Controller {
+  return {
+    name: "Autopilot",
+    decide: ({ lineY, lineVelocity, currentSpeed, gates, flags, rules }) => {
+      // Nothing to do while gravity is off (SOL holds the rocket level)
+      if (flags.gravityDisabled) return false
+
+      // How fast bouncing every tick climbs, in pixels per tick
+      const climbRate = -(rules.bounceVelocity + rules.gravity)
+      const nextY = lineY + lineVelocity + rules.gravity
+      for (const gate of gates) {
+        // Distance until the gate reaches the rocket, after the next step
+        const distance = gate.x - currentSpeed - LINE_X_POSITION
+        if (gate.x + GATE_WIDTH - currentSpeed < LINE_X_POSITION || distance > AUTOPILOT_VIEW) continue
+
+        const lowestSafeY = gate.gapBottom - AUTOPILOT_MARGIN
+        if (distance <= 0) {
+          // Inside this gate on the next step
+          if (nextY > lowestSafeY) return true
+        } else {
+          // Still ahead: bounce now if waiting any longer leaves too little time to climb into it
+          const ticksUntilGate = distance / currentSpeed
+          if (nextY - lowestSafeY > climbRate * ticksUntilGate) return true
+        }
+      }
+
+      // Never fall out of the bottom of the screen
+      return nextY > GAME_HEIGHT - AUTOPILOT_SCREEN_MARGIN
+    },
+  }
+}
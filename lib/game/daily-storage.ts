@@ -0,0 +1,60 @@
+import type { Replay } from "./replay"
+import { getSaveData, updateSaveData } from "./save-store"
+
+// The player's Daily Challenge history, one entry per day played
+
+export interface DailyResult {
+  day: string // "YYYY-MM-DD"
+  // Set as soon as the ranked attempt starts, so leaving mid-run still uses it up
+  rankedAttempted: boolean
+  // The one ranked attempt, only possible on the day itself. Kept after a
+  // simulation version bump for its score, even though it can no longer be watched.
+  rankedReplay: Replay | null
+  practiceBest: number
+  practiceRuns: number
+}
+
+export type DailyHistory = Record<string, DailyResult>
+
+export function loadDailyHistory(): DailyHistory {
+  return getSaveData().dailyHistory
+}
+
+export function hasRankedAttempt(history: DailyHistory, day: string) {
+  return history[day]?.rankedAttempted ?? false
+}
+
+function updateDailyResult(day: string, update: (result: DailyResult) => void): DailyHistory {
+  return updateSaveData((data) => {
+    const result = data.dailyHistory[day] ?? {
+      day,
+      rankedAttempted: false,
+      rankedReplay: null,
+      practiceBest: 0,
+      practiceRuns: 0,
+    }
+    update(result)
+    data.dailyHistory[day] = result
+  }).dailyHistory
+}
+
+// Use up the day's ranked attempt as its run starts and return the updated history
+export function startRankedDailyRun(day: string): DailyHistory {
+  return updateDailyResult(day, (result) => {
+    result.rankedAttempted = true
+  })
+}
+
+// Record a finished daily run and return the updated history. A ranked run is
+// ignored if the day already has one.
+export function saveDailyRun(day: string, replay: Replay, ranked: boolean): DailyHistory {
+  return updateDailyResult(day, (result) => {
+    if (ranked) {
+      result.rankedAttempted = true
+      if (!result.rankedReplay) result.rankedReplay = replay
+    } else {
+      result.practiceRuns += 1
+      result.practiceBest = Math.max(result.practiceBest, replay.score)
+    }
+  })
+}
@@ -0,0 +1,33 @@
+import { normalizeSeed } from "./rng"
+
+// Daily Challenge: everyone flies the same course on the same UTC day.
+// Days are identified by their "YYYY-MM-DD" key.
+
+function pad(value: number) {
+  return value.toString().padStart(2, "0")
+}
+
+// Key of the UTC day containing the given moment
+export function getDayKey(now = new Date()) {
+  return `${now.getUTCFullYear()}-${pad(now.getUTCMonth() + 1)}-${pad(now.getUTCDate())}`
+}
+
+// Calendar pickers work in local dates, so these convert by calendar day rather than by instant
+export function dayKeyToLocalDate(dayKey: string) {
+  const [year, month, day] = dayKey.split("-").map(Number)
+  return new Date(year, month - 1, day)
+}
+
+export function localDateToDayKey(date: Date) {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+// Course seed for a day (FNV-1a hash of the key), identical on every machine
+export function getDailySeed(dayKey: string) {
+  let hash = 0x811c9dc5
+  for (const char of `daily:${dayKey}`) {
+    hash ^= char.charCodeAt(0)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return normalizeSeed(hash)
+}
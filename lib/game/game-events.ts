@@ -0,0 +1,62 @@
+import type { GameMode } from "./modes"
+import type { GameRules } from "./rules"
+import type { SimulationEvent } from "./simulation"
+
+// The event bus a live run reports on. The game loop only emits: the simulation's
+// events for every step, plus run_started when a run begins. Everything that
+// reacts to play (the HUD, game over handling, achievements, stats) subscribes.
+
+// Where a run was started from; "endless" covers every mode picked in the Endless menu
+export const RUN_KINDS = ["endless", "daily", "campaign", "level", "market", "challenge", "bot"] as const
+export type RunKind = (typeof RUN_KINDS)[number]
+
+export interface RunStartedEvent {
+  type: "run_started"
+  kind: RunKind
+  seed: number
+  mode: GameMode
+  rules: GameRules
+}
+
+// Every event carries the simulation tick it happened on; a run starts on tick 0
+export type GameEvent = (RunStartedEvent | SimulationEvent) & { tick: number }
+export type GameEventType = GameEvent["type"]
+export type GameEventOf<T extends GameEventType> = Extract<GameEvent, { type: T }>
+
+export type GameEventListener<T extends GameEventType> = (event: GameEventOf<T>) => void
+
+export interface GameEventBus {
+  // Each subscription returns the function that ends it
+  on: <T extends GameEventType>(type: T, listener: GameEventListener<T>) => () => void
+  onAny: (listener: (event: GameEvent) => void) => () => void
+  emit: (event: GameEvent) => void
+}
+
+export function createGameEventBus(): GameEventBus {
+  const listeners = new Set<(event: GameEvent) => void>()
+
+  const onAny = (listener: (event: GameEvent) => void) => {
+    listeners.add(listener)
+    return () => {
+      listeners.delete(listener)
+    }
+  }
+
+  return {
+    on: (type, listener) =>
+      onAny((event) => {
+        if (event.type === type) listener(event as GameEventOf<typeof type>)
+      }),
+    onAny,
+    // A listener that throws is reported without keeping the others from hearing the event
+    emit: (event) => {
+      for (const listener of [...listeners]) {
+        try {
+          listener(event)
+        } catch (e) {
+          console.error(`Error handling ${event.type} event:`, e)
+        }
+      }
+    },
+  }
+}
@@ -0,0 +1,54 @@
+import type { GameMode } from "./modes"
+import { type DifficultyPreset, type GameRules, getRulesPreset } from "./rules"
+import { getSaveData, updateSaveData } from "./save-store"
+import { TOKEN_TYPES } from "./tokens"
+import { type TokenCounts, createEmptyTokenCounts } from "./types"
+
+// The player's records, kept separately for every game mode: a high score per
+// difficulty preset, each with the rules it was set under so it is never
+// compared across presets, and the most of each token in one run.
+
+export interface HighScore {
+  score: number
+  rules: GameRules
+  recordedAt: string // ISO timestamp
+}
+
+export type HighScores = Partial<Record<DifficultyPreset, HighScore>>
+
+export function loadHighScores(mode: GameMode): HighScores {
+  return getSaveData().highScores[mode] ?? {}
+}
+
+// Record a finished run's score and return the mode's updated high scores.
+// Runs on rules that match no preset have no high score to beat.
+export function saveHighScore(mode: GameMode, score: number, rules: GameRules): HighScores {
+  const highScores = loadHighScores(mode)
+  const preset = getRulesPreset(rules)
+  if (!preset || score <= (highScores[preset]?.score ?? 0)) return highScores
+
+  const updated = { ...highScores, [preset]: { score, rules, recordedAt: new Date().toISOString() } }
+  updateSaveData((data) => {
+    data.highScores[mode] = updated
+  })
+  return updated
+}
+
+export function loadTokenRecords(mode: GameMode): TokenCounts {
+  return getSaveData().tokenRecords[mode] ?? createEmptyTokenCounts()
+}
+
+// Raise the mode's token records to a finished run's counts and return them
+export function saveTokenRecords(mode: GameMode, tokenCounts: TokenCounts): TokenCounts {
+  const records = loadTokenRecords(mode)
+  if (TOKEN_TYPES.every((tokenType) => tokenCounts[tokenType] <= records[tokenType])) return records
+
+  const updated = { ...records }
+  for (const tokenType of TOKEN_TYPES) {
+    updated[tokenType] = Math.max(records[tokenType], tokenCounts[tokenType])
+  }
+  updateSaveData((data) => {
+    data.tokenRecords[mode] = updated
+  })
+  return updated
+}
@@ -0,0 +1,132 @@
+import { z } from "zod"
+import { GAME_HEIGHT, GAME_WIDTH, GATE_DISTANCE, GATE_WIDTH } from "./constants"
+import type { GameRules } from "./rules"
+import { TOKEN_TYPES, type TokenType } from "./tokens"
+
+// Hand-made levels: instead of random gates the course is a fixed list of
+// gates, each with its own position, opening and token, plus the scroll speed
+// to fly each stretch at. A level ends once its last gate is passed. Levels are
+// saved as versioned JSON so the editor and the game can exchange them.
+
+export const LEVEL_FORMAT_VERSION = 1
+
+export const MIN_GATE_SPACING = GATE_WIDTH * 2
+export const MAX_GATE_SPACING = GAME_WIDTH
+const MAX_LEVEL_GATES = 1000
+
+export const levelGateSchema = z
+  .object({
+    // Distance from the previous gate; the first gate always starts at the right edge
+    spacing: z.number().min(MIN_GATE_SPACING).max(MAX_GATE_SPACING),
+    topHeight: z.number().min(0).max(GAME_HEIGHT),
+    gap: z.number().positive().max(GAME_HEIGHT).nullable(), // null: the difficulty preset's gap
+    narrow: z.boolean(), // Use the preset's narrow gap rather than its normal one, when gap is null
+    token: z.enum(TOKEN_TYPES as [TokenType, ...TokenType[]]).nullable(),
+  })
+  .refine((gate) => gate.gap === null || gate.topHeight + gate.gap <= GAME_HEIGHT, {
+    message: "The opening runs off the bottom of the screen",
+    path: ["gap"],
+  })
+
+// From the moment fromGate gates have been passed, scroll at speed
+export const speedSegmentSchema = z.object({
+  fromGate: z.number().int().min(0),
+  speed: z.number().positive().max(20),
+})
+
+export const levelSchema = z.object({
+  version: z.literal(LEVEL_FORMAT_VERSION),
+  name: z.string().trim().min(1).max(60),
+  gates: z.array(levelGateSchema).min(1).max(MAX_LEVEL_GATES),
+  speedSegments: z.array(speedSegmentSchema).max(MAX_LEVEL_GATES),
+})
+
+export type LevelGate = z.infer<typeof levelGateSchema>
+export type SpeedSegment = z.infer<typeof speedSegmentSchema>
+export type Level = z.infer<typeof levelSchema>
+
+export class LevelError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "LevelError"
+  }
+}
+
+export function createLevelGate(overrides: Partial<LevelGate> = {}): LevelGate {
+  return { spacing: GATE_DISTANCE, topHeight: 225, gap: null, narrow: false, token: null, ...overrides }
+}
+
+// A short starter course for a new level
+export function createDefaultLevel(): Level {
+  return {
+    version: LEVEL_FORMAT_VERSION,
+    name: "Untitled level",
+    gates: [
+      createLevelGate({ topHeight: 225 }),
+      createLevelGate({ topHeight: 175 }),
+      createLevelGate({ topHeight: 275, token: "btc" }),
+      createLevelGate({ topHeight: 225, narrow: true }),
+    ],
+    speedSegments: [],
+  }
+}
+
+function describeIssue(error: z.ZodError) {
+  const issue = error.issues[0]
+  const where = issue.path.length > 0 ? `${issue.path.join(".")}: ` : ""
+  return `${where}${issue.message}`
+}
+
+// The first problem with a level, in words, or null if it is fine
+export function getLevelProblem(level: unknown): string | null {
+  const result = levelSchema.safeParse(level)
+  return result.success ? null : describeIssue(result.error)
+}
+
+export function validateLevel(level: unknown): Level {
+  const result = levelSchema.safeParse(level)
+  if (!result.success) throw new LevelError(describeIssue(result.error))
+  return result.data
+}
+
+export function parseLevel(text: string): Level {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new LevelError("Not a JSON file")
+  }
+
+  const version = (data as { version?: unknown } | null)?.version
+  if (typeof version === "number" && version > LEVEL_FORMAT_VERSION) {
+    throw new LevelError("This level was made with a newer version of the game")
+  }
+  return validateLevel(data)
+}
+
+export function serializeLevel(level: Level) {
+  return JSON.stringify(level, null, 2)
+}
+
+// The opening a level gate has under the given rules
+export function getLevelGateGap(gate: LevelGate, rules: GameRules) {
+  return gate.gap ?? (gate.narrow ? rules.narrowGateGap : rules.initialGateGap)
+}
+
+// Scroll speed once gatesPassed gates are behind the player; the preset's speed until a segment starts
+export function getLevelSpeed(level: Level, gatesPassed: number, rules: GameRules) {
+  let speed = rules.gateSpeed
+  let from = -1
+  for (const segment of level.speedSegments) {
+    if (segment.fromGate <= gatesPassed && segment.fromGate >= from) {
+      speed = segment.speed
+      from = segment.fromGate
+    }
+  }
+  return speed
+}
+
+// Distance from the first gate to the last, in pixels
+export function getLevelLength(level: Level) {
+  return level.gates.slice(1).reduce((length, gate) => length + gate.spacing, 0) + GATE_WIDTH
+}
@@ -0,0 +1,177 @@
+import { GAME_HEIGHT, MARKET_CHART_MARGIN, MARKET_GAP_VOLATILITY_SCALE, MARKET_MAX_GATE_GAP } from "./constants"
+import type { GameRules } from "./rules"
+
+// Historical market data mode: instead of random gates the course is built from
+// real OHLC candles, one gate per candle. Each gate's opening is centred on the
+// candle's close and is wider the more the price swung within the candle.
+
+export interface Candle {
+  time: number // Candle open time, milliseconds since the epoch
+  open: number
+  high: number
+  low: number
+  close: number
+}
+
+// A parsed data set plus the price range the chart's y-axis spans
+export interface MarketCourse {
+  name: string
+  candles: Candle[]
+  minPrice: number
+  maxPrice: number
+}
+
+const MIN_CANDLES = 2
+const MAX_CANDLES = 20000
+
+export class MarketDataError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "MarketDataError"
+  }
+}
+
+// Accepts a number (seconds or milliseconds since the epoch) or anything Date can parse
+function parseTime(value: unknown) {
+  const numeric = typeof value === "number" ? value : typeof value === "string" && value.trim() !== "" ? Number(value) : NaN
+  if (Number.isFinite(numeric)) {
+    return numeric < 1e11 ? numeric * 1000 : numeric
+  }
+  return typeof value === "string" ? Date.parse(value) : NaN
+}
+
+function toCandle(time: unknown, open: unknown, high: unknown, low: unknown, close: unknown, row: number): Candle {
+  const candle = {
+    time: parseTime(time),
+    open: Number(open),
+    high: Number(high),
+    low: Number(low),
+    close: Number(close),
+  }
+
+  if (!Number.isFinite(candle.time)) {
+    throw new MarketDataError(`Row ${row}: unreadable date "${String(time)}"`)
+  }
+  if (![candle.open, candle.high, candle.low, candle.close].every((price) => Number.isFinite(price) && price > 0)) {
+    throw new MarketDataError(`Row ${row}: prices must be positive numbers`)
+  }
+  if (candle.high < Math.max(candle.open, candle.close) || candle.low > Math.min(candle.open, candle.close)) {
+    throw new MarketDataError(`Row ${row}: high/low don't contain open and close`)
+  }
+  return candle
+}
+
+const TIME_COLUMNS = ["time", "date", "timestamp", "open time", "opentime", "datetime"]
+
+function findColumn(header: string[], names: string[]) {
+  return header.findIndex((column) => names.includes(column))
+}
+
+// CSV with a header row naming a date/time column plus open, high, low and close
+function parseCsv(text: string): Candle[] {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() !== "")
+  if (lines.length === 0) throw new MarketDataError("The file is empty")
+
+  const delimiter = lines[0].includes(";") && !lines[0].includes(",") ? ";" : ","
+  const split = (line: string) => line.split(delimiter).map((cell) => cell.trim().replace(/^"|"$/g, ""))
+  const header = split(lines[0]).map((column) => column.toLowerCase())
+
+  const columns = {
+    time: findColumn(header, TIME_COLUMNS),
+    open: findColumn(header, ["open"]),
+    high: findColumn(header, ["high"]),
+    low: findColumn(header, ["low"]),
+    close: findColumn(header, ["close", "adj close"]),
+  }
+  const missing = Object.entries(columns).filter(([, index]) => index === -1)
+  if (missing.length > 0) {
+    throw new MarketDataError(`Missing column(s): ${missing.map(([name]) => name).join(", ")}`)
+  }
+
+  return lines.slice(1).map((line, index) => {
+    const cells = split(line)
+    return toCandle(
+      cells[columns.time],
+      cells[columns.open],
+      cells[columns.high],
+      cells[columns.low],
+      cells[columns.close],
+      index + 2,
+    )
+  })
+}
+
+// JSON array of candle objects ({ time|date|timestamp, open, high, low, close })
+// or of [time, open, high, low, close, ...] rows as exchanges return them
+function parseJson(text: string): Candle[] {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new MarketDataError("The file isn't valid JSON")
+  }
+  if (!Array.isArray(data)) throw new MarketDataError("Expected a JSON array of candles")
+
+  return data.map((row: unknown, index) => {
+    if (Array.isArray(row)) {
+      return toCandle(row[0], row[1], row[2], row[3], row[4], index + 1)
+    }
+    if (typeof row === "object" && row !== null) {
+      const record = row as Record<string, unknown>
+      const time = record.time ?? record.date ?? record.timestamp
+      return toCandle(time, record.open, record.high, record.low, record.close, index + 1)
+    }
+    throw new MarketDataError(`Row ${index + 1}: expected an object or an array`)
+  })
+}
+
+// Parse a CSV or JSON file's contents into candles sorted oldest first
+export function parseCandles(text: string): Candle[] {
+  const trimmed = text.trim()
+  const candles = trimmed.startsWith("[") ? parseJson(trimmed) : parseCsv(trimmed)
+
+  if (candles.length < MIN_CANDLES) {
+    throw new MarketDataError(`Need at least ${MIN_CANDLES} candles`)
+  }
+  if (candles.length > MAX_CANDLES) {
+    throw new MarketDataError(`Too many candles (${candles.length}), the limit is ${MAX_CANDLES}`)
+  }
+  return candles.sort((a, b) => a.time - b.time)
+}
+
+export function createMarketCourse(name: string, candles: Candle[]): MarketCourse {
+  return {
+    name,
+    candles,
+    minPrice: Math.min(...candles.map((candle) => candle.low)),
+    maxPrice: Math.max(...candles.map((candle) => candle.high)),
+  }
+}
+
+// The chart's y-axis: the course's whole price range, highest price at the top
+export function priceToY(course: MarketCourse, price: number) {
+  const span = course.maxPrice - course.minPrice || 1
+  const chartHeight = GAME_HEIGHT - MARKET_CHART_MARGIN * 2
+  return MARKET_CHART_MARGIN + ((course.maxPrice - price) / span) * chartHeight
+}
+
+export function yToPrice(course: MarketCourse, y: number) {
+  const span = course.maxPrice - course.minPrice || 1
+  const chartHeight = GAME_HEIGHT - MARKET_CHART_MARGIN * 2
+  return course.maxPrice - ((y - MARKET_CHART_MARGIN) / chartHeight) * span
+}
+
+// Gate geometry for a candle: gap centred on the close, starting from the rules'
+// narrow gap and wider for volatile candles
+export function getCandleGate(course: MarketCourse, candle: Candle, rules: GameRules) {
+  const volatility = (candle.high - candle.low) / candle.close
+  const maxGateGap = Math.max(MARKET_MAX_GATE_GAP, rules.narrowGateGap)
+  const baseGateGap = Math.min(maxGateGap, rules.narrowGateGap + volatility * MARKET_GAP_VOLATILITY_SCALE)
+  const centreY = priceToY(course, candle.close)
+  const topHeight = Math.max(0, Math.min(GAME_HEIGHT - baseGateGap, centreY - baseGateGap / 2))
+  return { topHeight, baseGateGap }
+}
+
+export function formatCandleDate(time: number) {
+  return new Date(time).toLocaleDateString(undefined, { year: "2-digit", month: "short", day: "numeric", timeZone: "UTC" })
+}
@@ -0,0 +1,96 @@
+import { SIMULATION_STEP_MS } from "./constants"
+import type { GameRules } from "./rules"
+import type { SimulationState } from "./simulation"
+import { TOKEN_TYPES, getTokenDefinition } from "./tokens"
+
+// Game mode registry. A mode is played on top of a difficulty preset: it can
+// adjust that preset's rules, end the run on a timer, turn crashes into a
+// score penalty and decide what the score counts. Each mode keeps its own
+// high scores and token records.
+
+export interface GameModeDefinition {
+  id: string
+  name: string
+  description: string
+  scoreLabel: string // What the HUD and game-over screen call the score
+  timeLimit?: number // Milliseconds; the run ends on its own when they run out
+  collisionPenalty?: number // Crashes cost this much score instead of ending the run
+  adjustRules?: (rules: GameRules) => GameRules
+  getScore: (state: Pick<SimulationState, "gatesPassed" | "tokenCounts" | "collisions">) => number
+}
+
+const ZEN_COLLISION_PENALTY = 5
+
+export const GAME_MODE_DEFINITIONS = [
+  {
+    id: "endless",
+    name: "Endless",
+    description: "Fly as far as you can. One crash ends the run.",
+    scoreLabel: "Score",
+    getScore: ({ gatesPassed }) => gatesPassed,
+  },
+  {
+    id: "time_attack",
+    name: "Time Attack",
+    description: "Pass as many gates as you can in 60 seconds.",
+    scoreLabel: "Gates",
+    timeLimit: 60000,
+    getScore: ({ gatesPassed }) => gatesPassed,
+  },
+  {
+    id: "hardcore",
+    name: "Hardcore",
+    description: "No tokens, narrow gates only and the speed ramps up twice as often.",
+    scoreLabel: "Score",
+    adjustRules: (rules) => ({
+      ...rules,
+      tokenSpawnChance: 0,
+      narrowGateChance: 1,
+      difficultyGateThreshold: Math.max(1, Math.round(rules.difficultyGateThreshold / 2)),
+      difficultyIncrease: rules.difficultyIncrease * 1.5,
+    }),
+    getScore: ({ gatesPassed }) => gatesPassed,
+  },
+  {
+    id: "zen",
+    name: "Zen",
+    description: `You can't crash. Every hit costs ${ZEN_COLLISION_PENALTY} points; end the run from the pause menu.`,
+    scoreLabel: "Score",
+    collisionPenalty: ZEN_COLLISION_PENALTY,
+    getScore: ({ gatesPassed, collisions }) => Math.max(0, gatesPassed - collisions * ZEN_COLLISION_PENALTY),
+  },
+  {
+    id: "token_rush",
+    name: "Token Rush",
+    description: "Tokens everywhere. Your score is the value of the portfolio you collect.",
+    scoreLabel: "Portfolio",
+    adjustRules: (rules) => ({ ...rules, tokenSpawnChance: Math.max(rules.tokenSpawnChance, 0.8) }),
+    getScore: ({ tokenCounts }) =>
+      TOKEN_TYPES.reduce((total, tokenType) => total + tokenCounts[tokenType] * getTokenDefinition(tokenType).price, 0),
+  },
+] as const satisfies readonly GameModeDefinition[]
+
+export type GameMode = (typeof GAME_MODE_DEFINITIONS)[number]["id"]
+
+export const GAME_MODES = GAME_MODE_DEFINITIONS.map((definition) => definition.id) as [GameMode, ...GameMode[]]
+
+export const DEFAULT_MODE: GameMode = "endless"
+
+const definitionsById = new Map<string, GameModeDefinition>(
+  GAME_MODE_DEFINITIONS.map((definition) => [definition.id, definition]),
+)
+
+export function getModeDefinition(mode: GameMode): GameModeDefinition {
+  return definitionsById.get(mode)!
+}
+
+// The rules a run in this mode is actually played with
+export function getModeRules(mode: GameMode, rules: GameRules): GameRules {
+  return getModeDefinition(mode).adjustRules?.(rules) ?? rules
+}
+
+// Milliseconds left on a timed run, or null when the mode has no time limit
+export function getTimeLeft(state: Pick<SimulationState, "mode" | "tick">) {
+  const { timeLimit } = getModeDefinition(state.mode)
+  return timeLimit === undefined ? null : Math.max(0, timeLimit - state.tick * SIMULATION_STEP_MS)
+}
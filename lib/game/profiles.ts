@@ -0,0 +1,74 @@
+import { z } from "zod"
+
+// Local player profiles. Each profile has a save of its own (see save-store),
+// so players sharing a browser keep separate records, settings and replays.
+
+export const PROFILE_COLORS = ["yellow", "orange", "red", "green", "blue", "purple"] as const
+export type ProfileColor = (typeof PROFILE_COLORS)[number]
+
+export const MAX_PROFILES = 8
+export const MAX_PROFILE_NAME_LENGTH = 20 // Same as a leaderboard name, which defaults to it
+export const DEFAULT_PROFILE_NAME = "Player 1"
+
+export const profileSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1).max(MAX_PROFILE_NAME_LENGTH),
+  color: z.enum(PROFILE_COLORS).catch("yellow"),
+  createdAt: z.string(),
+})
+
+export type Profile = z.infer<typeof profileSchema>
+
+export const profileListSchema = z
+  .object({
+    activeProfileId: z.string(),
+    profiles: z.array(profileSchema).min(1),
+  })
+  .refine(({ activeProfileId, profiles }) => profiles.some((profile) => profile.id === activeProfileId), {
+    message: "The active profile isn't in the list",
+  })
+
+export type ProfileList = z.infer<typeof profileListSchema>
+
+export function findActiveProfile({ activeProfileId, profiles }: ProfileList): Profile {
+  return profiles.find((profile) => profile.id === activeProfileId) ?? profiles[0]
+}
+
+// What the player fills in for a new profile. Names must differ, ignoring case,
+// so the switcher can tell profiles apart.
+export function createProfileDetailsSchema(existing: Profile[]) {
+  const takenNames = new Set(existing.map((profile) => profile.name.toLowerCase()))
+  return z.object({
+    name: z
+      .string()
+      .trim()
+      .min(1, "Enter a name")
+      .max(MAX_PROFILE_NAME_LENGTH, `At most ${MAX_PROFILE_NAME_LENGTH} characters`)
+      .refine((name) => !takenNames.has(name.toLowerCase()), "There's already a profile with that name"),
+    color: z.enum(PROFILE_COLORS),
+  })
+}
+
+export type ProfileDetails = z.infer<ReturnType<typeof createProfileDetailsSchema>>
+
+// A profile name made from a name kept elsewhere, cut to fit, or the default if nothing usable is left
+export function toProfileName(name: string | null | undefined) {
+  const result = profileSchema.shape.name.safeParse(name?.trim().slice(0, MAX_PROFILE_NAME_LENGTH).trim())
+  return result.success ? result.data : DEFAULT_PROFILE_NAME
+}
+
+// 128 random bits as hex. Not crypto.randomUUID, which browsers only offer over https or on localhost.
+function createProfileId() {
+  return Array.from(crypto.getRandomValues(new Uint8Array(16)), (byte) => byte.toString(16).padStart(2, "0")).join("")
+}
+
+export function createProfile(details: ProfileDetails): Profile {
+  return { id: createProfileId(), ...details, createdAt: new Date().toISOString() }
+}
+
+// Up to two initials for the avatar, e.g. "Satoshi Nakamoto" → "SN"
+export function getProfileInitials(name: string) {
+  const words = name.trim().split(/\s+/).filter(Boolean)
+  const initials = words.length > 1 ? words[0][0] + words[words.length - 1][0] : name.trim().slice(0, 2)
+  return initials.toUpperCase()
+}
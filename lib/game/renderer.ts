@@ -0,0 +1,468 @@
+import {
+  GAME_HEIGHT,
+  GAME_WIDTH,
+  GATE_WIDTH,
+  LINE_X_POSITION,
+  SCREEN_FLASH_DURATION,
+  SIMULATION_STEP_MS,
+} from "./constants"
+import { type MarketCourse, formatCandleDate, yToPrice } from "./market-data"
+import { type EffectFlags, type SimulationState, getEffectFlags, getGateGap, getSimulationTime, msToTicks } from "./simulation"
+import { TOKEN_DEFINITIONS, TOKEN_ICON_RADIUS, type TokenType, drawTokenIcon, getTokenDefinition } from "./tokens"
+import type { Gate, TokenCounts, TrailPoint } from "./types"
+
+// Canvas renderer for a simulation state. Everything here only reads state;
+// the simulation never needs a canvas to run.
+
+export interface RenderOptions {
+  highestTokenCounts: TokenCounts
+  ghost?: GhostView | null // A previous run to race against, drawn translucent
+}
+
+export interface GhostView {
+  state: SimulationState
+  trail: TrailPoint[]
+}
+
+const GHOST_ALPHA = 0.35
+
+// Create a simple array to store the trail
+// Each index represents an x-coordinate, and the value represents the y-coordinate and direction
+export function createTrail(y: number): TrailPoint[] {
+  return new Array(LINE_X_POSITION + 1).fill(null).map(() => ({
+    y,
+    isAscending: false,
+  }))
+}
+
+// Shift all trail points to the left and add the current position
+export function advanceTrail(trail: TrailPoint[], state: SimulationState) {
+  for (let i = 0; i < LINE_X_POSITION; i++) {
+    trail[i] = trail[i + 1]
+  }
+
+  trail[LINE_X_POSITION] = {
+    y: state.lineY,
+    isAscending: state.isAscending,
+  }
+}
+
+// Blend two consecutive simulation steps so motion stays smooth when the
+// display refreshes faster (or slower) than the fixed simulation rate.
+// alpha is how far we are between previous (0) and current (1).
+export function interpolateState(previous: SimulationState, current: SimulationState, alpha: number): SimulationState {
+  if (previous === current || alpha >= 1) return current
+
+  const lerp = (from: number, to: number) => from + (to - from) * alpha
+  const previousGates = new Map(previous.gates.map((gate) => [gate.id, gate]))
+
+  return {
+    ...current,
+    lineY: lerp(previous.lineY, current.lineY),
+    gates: current.gates.map((gate) => {
+      const previousGate = previousGates.get(gate.id)
+      return previousGate ? { ...gate, x: lerp(previousGate.x, gate.x) } : gate
+    }),
+  }
+}
+
+export function renderFrame(
+  ctx: CanvasRenderingContext2D,
+  state: SimulationState,
+  trail: TrailPoint[],
+  options: RenderOptions,
+) {
+  const flags = getEffectFlags(state)
+
+  // Clear canvas
+  ctx.clearRect(0, 0, GAME_WIDTH, GAME_HEIGHT)
+
+  // Draw static trading chart background
+  drawTradingChartBackground(ctx, flags.isGoldMode, state.market)
+
+  // Add some visual indication of chaos
+  if (flags.screenTint) {
+    ctx.fillStyle = flags.screenTint
+    ctx.fillRect(0, 0, GAME_WIDTH, GAME_HEIGHT)
+  }
+
+  // Draw the trail
+  drawTrail(ctx, trail, flags)
+
+  // Gates flash every 200ms while TAO is active
+  const isFlashing = flags.flashingGates && Math.floor(getSimulationTime(state) / 200) % 2 === 0
+
+  // Draw gates with the actual gap
+  for (const gate of state.gates) {
+    const actualGateGap = getGateGap(gate, flags)
+    drawGate(ctx, gate, isFlashing, actualGateGap, flags)
+
+    // Draw token if this gate has one
+    if (gate.tokenType !== null) {
+      const tokenY = gate.topHeight + actualGateGap / 2
+      drawTokenIcon(ctx, gate.tokenType, gate.x + GATE_WIDTH / 2, tokenY, TOKEN_ICON_RADIUS)
+    }
+  }
+
+  // Label each gate with the date of the candle it was built from
+  if (state.market) {
+    drawCandleDates(ctx, state.gates, flags.isGoldMode)
+  }
+
+  // Draw the ghost underneath the live rocket so the player always stays readable
+  if (options.ghost) {
+    const ghostFlags = getEffectFlags(options.ghost.state)
+    drawTrail(ctx, options.ghost.trail, ghostFlags, GHOST_ALPHA)
+    if (!options.ghost.state.isGameOver) {
+      const { lineY, isAscending } = options.ghost.state
+      drawCurrentPosition(ctx, lineY, isAscending, ghostFlags, GHOST_ALPHA)
+    }
+  }
+
+  // Draw the current position indicator (the rocket)
+  drawCurrentPosition(ctx, state.lineY, state.isAscending, flags)
+
+  // Draw token counters
+  drawTokenCounters(ctx, state.tokenCounts, options.highestTokenCounts)
+
+  // Draw what is currently affecting the player and for how long
+  drawActiveEffects(ctx, state)
+
+  // Draw BUY/SELL indicators
+  drawBuySellIndicators(ctx, state.isAscending)
+
+  // Draw screen flash if active
+  const flashTicks = msToTicks(SCREEN_FLASH_DURATION)
+  if (state.screenFlashTick !== null && state.tick - state.screenFlashTick < flashTicks) {
+    const flashProgress = (state.tick - state.screenFlashTick) / flashTicks
+    const opacity = 1 - flashProgress
+    ctx.fillStyle = `rgba(255, 255, 255, ${opacity * 0.7})`
+    ctx.fillRect(0, 0, GAME_WIDTH, GAME_HEIGHT)
+  }
+}
+
+function drawTrail(ctx: CanvasRenderingContext2D, trail: TrailPoint[], flags: EffectFlags, alpha = 1) {
+  ctx.save()
+  ctx.globalAlpha = alpha
+
+  // Draw the trail - VERY EXPLICITLY
+  for (let x = 0; x < LINE_X_POSITION; x++) {
+    const point1 = trail[x]
+    const point2 = trail[x + 1]
+
+    if (point1 && point2) {
+      // Set color based on whether the line was ascending or descending
+      // If in gold mode, make the trail gold
+      // Otherwise an effect may tint it (SOL makes it purple)
+      let trailColor = point2.isAscending ? "#26a69a" : "#ef5350"
+      if (flags.isGoldMode) {
+        trailColor = "#FFD700"
+      } else if (flags.trailColor) {
+        trailColor = flags.trailColor
+      }
+
+      ctx.strokeStyle = trailColor
+      ctx.lineWidth = 3
+
+      // Draw a line segment
+      ctx.beginPath()
+      ctx.moveTo(x, point1.y)
+      ctx.lineTo(x + 1, point2.y)
+      ctx.stroke()
+    }
+  }
+
+  ctx.restore()
+}
+
+function drawTradingChartBackground(ctx: CanvasRenderingContext2D, isGoldMode: boolean, market: MarketCourse | null) {
+  // Draw white background (changed from dark)
+  ctx.fillStyle = isGoldMode ? "#fffbeb" : "#ffffff"
+  ctx.fillRect(0, 0, GAME_WIDTH, GAME_HEIGHT)
+
+  // Draw grid lines with lighter colors for white background
+  ctx.strokeStyle = isGoldMode ? "#e6d58d" : "#e0e0e0"
+  ctx.lineWidth = 1
+
+  // Horizontal grid lines
+  for (let y = 0; y < GAME_HEIGHT; y += 50) {
+    ctx.beginPath()
+    ctx.moveTo(0, y)
+    ctx.lineTo(GAME_WIDTH, y)
+    ctx.stroke()
+  }
+
+  // Vertical grid lines
+  for (let x = 0; x < GAME_WIDTH; x += 100) {
+    ctx.beginPath()
+    ctx.moveTo(x, 0)
+    ctx.lineTo(x, GAME_HEIGHT)
+    ctx.stroke()
+  }
+
+  // Draw static price indicators on the y-axis with darker text for white background
+  ctx.fillStyle = isGoldMode ? "#b59a00" : "#666666"
+  ctx.font = "12px Arial"
+  ctx.textAlign = "left"
+  for (let y = 50; y < GAME_HEIGHT; y += 50) {
+    // Real prices when flying market data, decorative ones otherwise
+    const price = market ? yToPrice(market, y) : 50000 - (y / GAME_HEIGHT) * 40000
+    ctx.fillText(formatPrice(price), 5, y - 5)
+  }
+
+  if (market) {
+    ctx.textAlign = "right"
+    ctx.fillText(market.name, GAME_WIDTH - 5, 15)
+  }
+}
+
+function formatPrice(price: number) {
+  // Keep a couple of significant decimals for cheap assets
+  const fractionDigits = price < 10 ? 4 : price < 1000 ? 2 : 0
+  return `$${price.toLocaleString(undefined, { minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits })}`
+}
+
+function drawCandleDates(ctx: CanvasRenderingContext2D, gates: Gate[], isGoldMode: boolean) {
+  ctx.font = "11px Arial"
+  ctx.textAlign = "center"
+  ctx.textBaseline = "alphabetic"
+  for (const gate of gates) {
+    if (!gate.candle) continue
+    const label = formatCandleDate(gate.candle.time)
+    const x = gate.x + GATE_WIDTH / 2
+    const width = ctx.measureText(label).width + 8
+    ctx.fillStyle = "rgba(255, 255, 255, 0.85)"
+    ctx.fillRect(x - width / 2, GAME_HEIGHT - 20, width, 16)
+    ctx.fillStyle = isGoldMode ? "#b59a00" : "#666666"
+    ctx.fillText(label, x, GAME_HEIGHT - 8)
+  }
+}
+
+function drawCurrentPosition(
+  ctx: CanvasRenderingContext2D,
+  y: number,
+  isAscending: boolean,
+  flags: EffectFlags,
+  alpha = 1,
+) {
+  // Draw the rocket emoji instead of a circle
+  ctx.font = "24px Arial"
+  ctx.textAlign = "center"
+  ctx.textBaseline = "middle"
+
+  // Determine the rotation based on direction
+  // Some effects (SOL) keep the rocket straight
+  const rotation = flags.steadyRocket ? 0 : isAscending ? -0.3 : 0.3
+
+  // Save the current context state
+  ctx.save()
+  ctx.globalAlpha = alpha
+
+  // Translate to the rocket position, rotate, then draw
+  ctx.translate(LINE_X_POSITION, y)
+  ctx.rotate(rotation)
+
+  // Draw the rocket emoji
+  ctx.fillText("🚀", 0, 0)
+
+  // Some effects (SOL) add a glow
+  if (flags.rocketGlow) {
+    ctx.shadowColor = flags.rocketGlow
+    ctx.shadowBlur = 10
+    ctx.fillText("🚀", 0, 0)
+    ctx.shadowBlur = 0
+  }
+
+  // Restore the context to its original state
+  ctx.restore()
+}
+
+function drawBuySellIndicators(ctx: CanvasRenderingContext2D, isAscending: boolean) {
+  const boxWidth = 60
+  const boxHeight = 40
+  const margin = 20
+  const bottomMargin = 80
+
+  // Draw BUY box (green)
+  const buyBoxX = margin
+  const buyBoxY = GAME_HEIGHT - bottomMargin
+
+  // Determine if BUY box should be illuminated
+  const buyBoxColor = isAscending ? "#26a69a" : "#a8d5d1" // Bright green when active, pale green when inactive
+
+  ctx.fillStyle = buyBoxColor
+  ctx.fillRect(buyBoxX, buyBoxY, boxWidth, boxHeight)
+  ctx.strokeStyle = "#000000"
+  ctx.lineWidth = 2
+  ctx.strokeRect(buyBoxX, buyBoxY, boxWidth, boxHeight)
+
+  // Draw BUY text
+  ctx.fillStyle = "#ffffff"
+  ctx.font = "bold 16px Arial"
+  ctx.textAlign = "center"
+  ctx.textBaseline = "middle"
+  ctx.fillText("BUY", buyBoxX + boxWidth / 2, buyBoxY + boxHeight / 2)
+
+  // Draw SELL box (red)
+  const sellBoxX = buyBoxX + boxWidth + margin
+  const sellBoxY = buyBoxY
+
+  // Determine if SELL box should be illuminated
+  const sellBoxColor = !isAscending ? "#ef5350" : "#f5b5b3" // Bright red when active, pale red when inactive
+
+  ctx.fillStyle = sellBoxColor
+  ctx.fillRect(sellBoxX, sellBoxY, boxWidth, boxHeight)
+  ctx.strokeStyle = "#000000"
+  ctx.lineWidth = 2
+  ctx.strokeRect(sellBoxX, sellBoxY, boxWidth, boxHeight)
+
+  // Draw SELL text
+  ctx.fillStyle = "#ffffff"
+  ctx.font = "bold 16px Arial"
+  ctx.textAlign = "center"
+  ctx.textBaseline = "middle"
+  ctx.fillText("SELL", sellBoxX + boxWidth / 2, sellBoxY + boxHeight / 2)
+}
+
+function drawGate(
+  ctx: CanvasRenderingContext2D,
+  gate: Gate,
+  isFlashing: boolean,
+  actualGateGap: number,
+  flags: EffectFlags,
+) {
+  const { isGoldMode, translucentGates } = flags
+
+  // Determine colors based on mode and flashing
+  let topColor = "#ef5350"
+  let bottomColor = "#26a69a"
+
+  if (isGoldMode) {
+    topColor = "#FFD700"
+    bottomColor = "#FFD700"
+  } else if (isFlashing) {
+    // Invert colors when flashing
+    topColor = "#26a69a"
+    bottomColor = "#ef5350"
+  }
+
+  // Set transparency if an effect (SOL) makes gates translucent
+  const topColorWithAlpha = translucentGates ? topColor + "4D" : topColor // 30% opacity
+  const bottomColorWithAlpha = translucentGates ? bottomColor + "4D" : bottomColor // 30% opacity
+
+  // Draw top gate (bear)
+  ctx.fillStyle = topColorWithAlpha
+  ctx.fillRect(gate.x, 0, GATE_WIDTH, gate.topHeight)
+
+  // Draw bear icon on top gate
+  ctx.fillStyle = translucentGates ? "rgba(255, 255, 255, 0.3)" : "#ffffff"
+  ctx.font = "20px Arial"
+  ctx.fillText("🐻", gate.x + GATE_WIDTH / 2 - 10, gate.topHeight - 20)
+
+  // Draw bottom gate (bull)
+  ctx.fillStyle = bottomColorWithAlpha
+  ctx.fillRect(gate.x, gate.topHeight + actualGateGap, GATE_WIDTH, GAME_HEIGHT - (gate.topHeight + actualGateGap))
+
+  // Draw bull icon on bottom gate
+  ctx.fillStyle = translucentGates ? "rgba(255, 255, 255, 0.3)" : "#ffffff"
+  ctx.font = "20px Arial"
+  ctx.fillText("🐂", gate.x + GATE_WIDTH / 2 - 10, gate.topHeight + actualGateGap + 30)
+
+  // Draw candle-like appearance for bottom gate
+  ctx.fillStyle = bottomColorWithAlpha
+  ctx.fillRect(gate.x + GATE_WIDTH / 2 - 5, gate.topHeight + actualGateGap - 20, 10, 20)
+}
+
+function drawTokenCounters(ctx: CanvasRenderingContext2D, counts: TokenCounts, highestCounts: TokenCounts) {
+  // Draw token counters horizontally in the top right corner
+  const startY = 30
+  const iconSize = 15
+  const spacing = 60 // Horizontal spacing between icons
+  const textOffset = 25 // Space between icon and text (increased for better visibility)
+
+  // Calculate starting X position to align right, 20px padding from right edge
+  let startX = GAME_WIDTH - 20 - spacing * (TOKEN_DEFINITIONS.length - 1)
+
+  for (const definition of TOKEN_DEFINITIONS) {
+    drawTokenIcon(ctx, definition.id, startX, startY, iconSize)
+
+    // Draw count with background for better visibility
+    ctx.fillStyle = "rgba(255, 255, 255, 0.7)"
+    ctx.fillRect(startX + 15, startY - 10, 40, 20)
+    ctx.font = "bold 16px Arial" // Make font bold for better visibility
+    ctx.textAlign = "left"
+    ctx.textBaseline = "alphabetic"
+    ctx.fillStyle = "#000000" // Black text
+    ctx.fillText(`${counts[definition.id]}/${highestCounts[definition.id]}`, startX + textOffset, startY + 5)
+
+    startX += spacing
+  }
+}
+
+// HUD strip under the token counters: one icon per active effect with a radial countdown
+function drawActiveEffects(ctx: CanvasRenderingContext2D, state: SimulationState) {
+  const centerY = 78
+  const iconSize = 14
+  const spacing = 44
+
+  // Stacked copies share one icon: show the copy count and the longest timer
+  const groups = new Map<TokenType, { remaining: number; total: number; count: number }>()
+  for (const effect of state.activeEffects) {
+    const remaining = Math.max(0, effect.endTick - state.tick)
+    const total = Math.max(1, effect.endTick - effect.startTick)
+    const group = groups.get(effect.type)
+    if (!group) {
+      groups.set(effect.type, { remaining, total, count: 1 })
+    } else {
+      group.count++
+      if (remaining > group.remaining) {
+        group.remaining = remaining
+        group.total = total
+      }
+    }
+  }
+
+  // Right-align the strip under the counters
+  let centerX = GAME_WIDTH - 20 - iconSize
+
+  for (const [tokenType, group] of groups) {
+    const fraction = Math.min(1, group.remaining / group.total)
+
+    // Dim backing disc, then the icon, then shade the part of the timer that has run out
+    ctx.fillStyle = "rgba(255, 255, 255, 0.7)"
+    ctx.beginPath()
+    ctx.arc(centerX, centerY, iconSize + 4, 0, Math.PI * 2)
+    ctx.fill()
+
+    drawTokenIcon(ctx, tokenType, centerX, centerY, iconSize)
+
+    const startAngle = -Math.PI / 2
+    const endAngle = startAngle + fraction * Math.PI * 2
+    ctx.fillStyle = "rgba(0, 0, 0, 0.45)"
+    ctx.beginPath()
+    ctx.moveTo(centerX, centerY)
+    ctx.arc(centerX, centerY, iconSize, endAngle, startAngle + Math.PI * 2)
+    ctx.closePath()
+    ctx.fill()
+
+    // Countdown ring in the token's colour
+    ctx.strokeStyle = getTokenDefinition(tokenType).color
+    ctx.lineWidth = 3
+    ctx.beginPath()
+    ctx.arc(centerX, centerY, iconSize + 3, startAngle, endAngle)
+    ctx.stroke()
+
+    // Seconds left, and the copy count for stacked effects
+    ctx.font = "bold 11px Arial"
+    ctx.textAlign = "center"
+    ctx.textBaseline = "top"
+    ctx.fillStyle = "#000000"
+    ctx.fillText(`${((group.remaining * SIMULATION_STEP_MS) / 1000).toFixed(1)}s`, centerX, centerY + iconSize + 6)
+    if (group.count > 1) {
+      ctx.textBaseline = "middle"
+      ctx.fillText(`x${group.count}`, centerX + iconSize + 2, centerY - iconSize)
+    }
+
+    centerX -= spacing
+  }
+}
@@ -0,0 +1,34 @@
+import type { GameMode } from "./modes"
+import { type Replay, getReplayMode, getReplayRules, isReplayCompatible } from "./replay"
+import { type DifficultyPreset, getRulesPreset } from "./rules"
+import { MAX_RECENT_REPLAYS } from "./save-data"
+import { getSaveData, updateSaveData } from "./save-store"
+
+// The player's saved replays: the most recent runs plus a personal best per
+// game mode and preset
+
+export function loadRecentReplays(): Replay[] {
+  return getSaveData().replays.recent.filter(isReplayCompatible)
+}
+
+export function loadBestReplay(mode: GameMode, preset: DifficultyPreset): Replay | null {
+  const replay = getSaveData().replays.best[mode]?.[preset] ?? null
+  return replay && isReplayCompatible(replay) ? replay : null
+}
+
+// Store a finished run; returns true if it became the new personal best for its mode and preset.
+// Market data and level runs fly their own course rather than a seed's and are not kept.
+export function saveReplay(replay: Replay) {
+  if (replay.market || replay.level) return false
+
+  const preset = getRulesPreset(getReplayRules(replay))
+  const mode = getReplayMode(replay)
+  const best = preset && loadBestReplay(mode, preset)
+  const isBest = preset !== null && (!best || replay.score > best.score)
+
+  updateSaveData((data) => {
+    data.replays.recent = [replay, ...loadRecentReplays()].slice(0, MAX_RECENT_REPLAYS)
+    if (preset && isBest) data.replays.best[mode] = { ...data.replays.best[mode], [preset]: replay }
+  })
+  return isBest
+}
@@ -0,0 +1,118 @@
+import { z } from "zod"
+import { SIMULATION_VERSION } from "./constants"
+import {
+  type SimulationInput,
+  type SimulationState,
+  type SimulationStepResult,
+  createInitialState,
+  stepSimulation,
+} from "./simulation"
+import type { Level } from "./level"
+import type { MarketCourse } from "./market-data"
+import { DEFAULT_MODE, GAME_MODES, type GameMode } from "./modes"
+import { DEFAULT_RULES, type GameRules, gameRulesSchema } from "./rules"
+import { TOKEN_TYPES, type TokenType } from "./tokens"
+import type { TokenCounts } from "./types"
+
+// A replay is everything needed to re-simulate a run exactly: the seed, the
+// simulation version it was recorded with and the ticks the player bounced on.
+// A run that did not end in a crash or on the clock was ended by the player on
+// finalTick. Score and token counts are stored for display and can be checked by re-running.
+
+export interface Replay {
+  version: number
+  seed: number
+  inputs: number[] // Ticks on which a bounce was applied, ascending
+  finalTick: number
+  score: number
+  tokenCounts: TokenCounts
+  recordedAt: string // ISO timestamp
+  market?: MarketCourse // The candles a market data run was flown on
+  level?: Level // The hand-made level a level run was flown on
+  rules?: GameRules // Missing on replays from before difficulty presets, which were all Normal
+  mode?: GameMode // Missing on replays from before game modes, which were all Endless
+}
+
+export const tokenCountsSchema = z.object(
+  Object.fromEntries(TOKEN_TYPES.map((tokenType) => [tokenType, z.number().int().min(0)])) as Record<
+    TokenType,
+    z.ZodNumber
+  >,
+)
+
+// Shape check only; whether the replay actually plays out as claimed is up to the caller
+export const replaySchema = z.object({
+  version: z.number().int(),
+  seed: z.number().int().min(0),
+  inputs: z.array(z.number().int().min(1)),
+  finalTick: z.number().int().min(0),
+  score: z.number().int().min(0),
+  tokenCounts: tokenCountsSchema,
+  recordedAt: z.string(),
+  rules: gameRulesSchema.optional(),
+  mode: z.enum(GAME_MODES).optional(),
+})
+
+export function createReplay(finalState: SimulationState, inputs: number[]): Replay {
+  return {
+    version: SIMULATION_VERSION,
+    seed: finalState.seed,
+    inputs: [...inputs],
+    finalTick: finalState.tick,
+    score: finalState.score,
+    tokenCounts: { ...finalState.tokenCounts },
+    recordedAt: new Date().toISOString(),
+    market: finalState.market ?? undefined,
+    level: finalState.level ?? undefined,
+    rules: finalState.baseRules,
+    mode: finalState.mode,
+  }
+}
+
+export function getReplayRules(replay: Replay): GameRules {
+  return replay.rules ?? DEFAULT_RULES
+}
+
+export function getReplayMode(replay: Replay): GameMode {
+  return replay.mode ?? DEFAULT_MODE
+}
+
+// Replays recorded with a different simulation version would play a different course
+export function isReplayCompatible(replay: Replay) {
+  return replay.version === SIMULATION_VERSION
+}
+
+// The input to feed when advancing from `state` to the next tick. Reaching
+// finalTick still alive means the player ended the run there.
+export function getReplayInput(
+  inputTicks: ReadonlySet<number>,
+  finalTick: number,
+  state: SimulationState,
+): SimulationInput {
+  return { bounce: inputTicks.has(state.tick + 1), quit: state.tick + 1 >= finalTick }
+}
+
+// Re-run a replay from its seed up to `untilTick` (the end of the run by default).
+// onStep sees every step, e.g. to rebuild a trail or collect events.
+export function simulateReplay(
+  replay: Replay,
+  untilTick = replay.finalTick,
+  onStep?: (result: SimulationStepResult, previous: SimulationState) => void,
+): SimulationState {
+  const inputTicks = new Set(replay.inputs)
+  let state = createInitialState(replay.seed, {
+    market: replay.market,
+    level: replay.level,
+    rules: getReplayRules(replay),
+    mode: getReplayMode(replay),
+  })
+
+  while (state.tick < untilTick && !state.isGameOver) {
+    const previous = state
+    const result = stepSimulation(state, getReplayInput(inputTicks, replay.finalTick, state))
+    state = result.state
+    onStep?.(result, previous)
+  }
+
+  return state
+}
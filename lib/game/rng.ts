@@ -0,0 +1,29 @@
+// Seeded pseudo-random number generator (mulberry32).
+// The generator state is a plain 32-bit integer so it can live inside the
+// simulation state: same seed in, same course out, on every machine.
+
+export interface RandomResult {
+  value: number // Uniform in [0, 1)
+  state: number // Generator state to use for the next draw
+}
+
+export function nextRandom(rngState: number): RandomResult {
+  const state = (rngState + 0x6d2b79f5) | 0
+  let t = state
+  t = Math.imul(t ^ (t >>> 15), t | 1)
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+  return {
+    value: ((t ^ (t >>> 14)) >>> 0) / 4294967296,
+    state,
+  }
+}
+
+// Normalise any number to a valid 32-bit unsigned seed
+export function normalizeSeed(seed: number) {
+  return Math.floor(Math.abs(seed)) >>> 0
+}
+
+// Pick a fresh seed for a new run. This is the only place gameplay touches Math.random.
+export function createRandomSeed() {
+  return normalizeSeed(Math.random() * 4294967296)
+}
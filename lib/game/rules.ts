@@ -0,0 +1,129 @@
+import { z } from "zod"
+import {
+  BOUNCE_VELOCITY,
+  DIFFICULTY_GATE_THRESHOLD,
+  DIFFICULTY_INCREASE,
+  GAME_HEIGHT,
+  GATE_SPEED,
+  GRAVITY,
+  INITIAL_GATE_GAP,
+  NARROW_GATE_GAP,
+} from "./constants"
+import { TOKEN_DEFINITIONS, TOKEN_SPAWN_CHANCE, TOKEN_TYPES, type TokenType } from "./tokens"
+
+// Game rules: every value that decides how hard a run is. A run is played
+// under one rules object from start to finish and it is recorded with the
+// run, so scores from different difficulties are never compared.
+
+export const gameRulesSchema = z.object({
+  gateSpeed: z.number().positive().max(20),
+  initialGateGap: z.number().positive().max(GAME_HEIGHT),
+  narrowGateGap: z.number().positive().max(GAME_HEIGHT),
+  narrowGateChance: z.number().min(0).max(1), // Share of random gates that get the narrow gap
+  gravity: z.number().positive().max(5),
+  bounceVelocity: z.number().negative().min(-50),
+  difficultyIncrease: z.number().min(0).max(5), // Speed added per difficulty level, as a fraction of gateSpeed
+  difficultyGateThreshold: z.number().int().min(1).max(1000), // Gates per difficulty level
+  tokenSpawnChance: z.number().min(0).max(1),
+  effectDurations: z.object(
+    Object.fromEntries(TOKEN_TYPES.map((tokenType) => [tokenType, z.number().int().min(0).max(60000)])) as Record<
+      TokenType,
+      z.ZodNumber
+    >,
+  ), // Milliseconds per token
+})
+
+export type GameRules = z.infer<typeof gameRulesSchema>
+
+// The rules that are plain numbers, e.g. for sweeping one of them
+export type NumericRule = Exclude<keyof GameRules, "effectDurations">
+
+export const DIFFICULTY_PRESETS = ["easy", "normal", "hard", "degen"] as const
+export type DifficultyPreset = (typeof DIFFICULTY_PRESETS)[number]
+
+export const DIFFICULTY_PRESET_LABELS: Record<DifficultyPreset, string> = {
+  easy: "Easy",
+  normal: "Normal",
+  hard: "Hard",
+  degen: "Degen",
+}
+
+const BASE_EFFECT_DURATIONS = Object.fromEntries(
+  TOKEN_DEFINITIONS.map((definition) => [definition.id, definition.duration]),
+) as Record<TokenType, number>
+
+// Normal is the game as originally tuned, so older replays still play back under it
+const NORMAL_RULES: GameRules = {
+  gateSpeed: GATE_SPEED,
+  initialGateGap: INITIAL_GATE_GAP,
+  narrowGateGap: NARROW_GATE_GAP,
+  narrowGateChance: 0.3,
+  gravity: GRAVITY,
+  bounceVelocity: BOUNCE_VELOCITY,
+  difficultyIncrease: DIFFICULTY_INCREASE,
+  difficultyGateThreshold: DIFFICULTY_GATE_THRESHOLD,
+  tokenSpawnChance: TOKEN_SPAWN_CHANCE,
+  effectDurations: BASE_EFFECT_DURATIONS,
+}
+
+export const PRESET_RULES: Record<DifficultyPreset, GameRules> = {
+  // Slower, roomier and more forgiving: helpful tokens last longer, chaos is short
+  easy: {
+    ...NORMAL_RULES,
+    gateSpeed: 2.2,
+    initialGateGap: 180,
+    narrowGateGap: 150,
+    narrowGateChance: 0.2,
+    gravity: 0.2,
+    bounceVelocity: -5,
+    difficultyIncrease: 0.05,
+    difficultyGateThreshold: 20,
+    tokenSpawnChance: 0.35,
+    effectDurations: { ...BASE_EFFECT_DURATIONS, btc: 12000, eth: 7000, tao: 3000, bch: 1500, sol: 7000 },
+  },
+  normal: NORMAL_RULES,
+  hard: {
+    ...NORMAL_RULES,
+    gateSpeed: 2.9,
+    initialGateGap: 135,
+    narrowGateGap: 105,
+    narrowGateChance: 0.4,
+    gravity: 0.24,
+    bounceVelocity: -5.7,
+    difficultyIncrease: 0.12,
+    difficultyGateThreshold: 12,
+    tokenSpawnChance: 0.2,
+    effectDurations: { ...BASE_EFFECT_DURATIONS, btc: 8000, eth: 4000, sol: 4000 },
+  },
+  // Fast, tight and full of tokens, most of which hurt for longer
+  degen: {
+    ...NORMAL_RULES,
+    gateSpeed: 3.4,
+    initialGateGap: 125,
+    narrowGateGap: 95,
+    narrowGateChance: 0.5,
+    gravity: 0.27,
+    bounceVelocity: -6,
+    difficultyIncrease: 0.15,
+    difficultyGateThreshold: 10,
+    tokenSpawnChance: 0.4,
+    effectDurations: { ...BASE_EFFECT_DURATIONS, btc: 6000, eth: 3000, tao: 8000, bch: 5000, sol: 3000 },
+  },
+}
+
+export const DEFAULT_PRESET: DifficultyPreset = "normal"
+export const DEFAULT_RULES = PRESET_RULES[DEFAULT_PRESET]
+
+// Which preset a rules object is, or null for custom rules
+export function getRulesPreset(rules: GameRules): DifficultyPreset | null {
+  return DIFFICULTY_PRESETS.find((preset) => rulesEqual(PRESET_RULES[preset], rules)) ?? null
+}
+
+function rulesEqual(a: GameRules, b: GameRules) {
+  const { effectDurations: aDurations, ...aNumbers } = a
+  const { effectDurations: bDurations, ...bNumbers } = b
+  return (
+    (Object.keys(aNumbers) as (keyof typeof aNumbers)[]).every((key) => aNumbers[key] === bNumbers[key]) &&
+    TOKEN_TYPES.every((tokenType) => aDurations[tokenType] === bDurations[tokenType])
+  )
+}
@@ -0,0 +1,108 @@
+import { z } from "zod"
+import { type GameEvent, type GameEventBus, RUN_KINDS, type RunKind } from "./game-events"
+import { GAME_MODES, type GameMode } from "./modes"
+import { RUN_END_CAUSES, type RunSummary, summarizeRun } from "./run-stats"
+import { loadProfileRecord, updateProfileRecord } from "./save-store"
+import { TOKEN_TYPES, type TokenType } from "./tokens"
+
+// Every run the player finishes, kept for the stats page. Logs are kept per
+// profile beside its save, and none are dropped. Only the latest runs keep
+// their events: older ones, and runs too long to keep whole, are boiled down
+// to their summary, a few hundred bytes, so the logs stay small enough for
+// localStorage.
+
+const MAX_FULL_RUN_LOGS = 10
+const MAX_RUN_LOG_EVENTS = 2000
+
+const RUN_LOG_RECORD = "runs"
+
+export interface RunLog {
+  kind: RunKind
+  seed: number
+  mode: GameMode
+  startedAt: string
+  events: GameEvent[] // Everything after run_started, ending with game_over; empty once summarized
+  summary?: RunSummary // What the events came to, kept in their place
+}
+
+const tokenCountsSchema = z.object(
+  Object.fromEntries(TOKEN_TYPES.map((tokenType) => [tokenType, z.number().min(0).default(0)])) as Record<
+    TokenType,
+    z.ZodDefault<z.ZodNumber>
+  >,
+)
+
+const runSummarySchema = z.object({
+  startedAt: z.string(),
+  day: z.string(),
+  mode: z.enum(GAME_MODES),
+  score: z.number().int().min(0),
+  ticks: z.number().int().min(0),
+  endCause: z.enum(RUN_END_CAUSES),
+  tokenCounts: tokenCountsSchema,
+  effectTicks: tokenCountsSchema,
+  effectsAtDeath: z.array(z.enum(TOKEN_TYPES as [TokenType, ...TokenType[]])),
+})
+
+// Events are only checked for their shape; the stats read the fields they need
+const runLogSchema = z.object({
+  kind: z.enum(RUN_KINDS),
+  seed: z.number().int(),
+  mode: z.enum(GAME_MODES),
+  startedAt: z.string(),
+  events: z.array(z.object({ type: z.string(), tick: z.number().int().min(0) }).passthrough()),
+  summary: runSummarySchema.optional(),
+})
+
+// A log that doesn't validate is dropped on its own
+function parseRunLogs(stored: unknown): RunLog[] {
+  if (!Array.isArray(stored)) return []
+  return stored.flatMap((entry): RunLog[] => {
+    const result = runLogSchema.safeParse(entry)
+    return result.success ? [result.data as RunLog] : []
+  })
+}
+
+export async function loadRunLogs(): Promise<RunLog[]> {
+  return parseRunLogs(await loadProfileRecord(RUN_LOG_RECORD))
+}
+
+// Swap a log's events for their summary; null if there is nothing to summarize
+function compactRunLog(log: RunLog): RunLog | null {
+  if (log.events.length === 0) return log
+  const summary = summarizeRun(log)
+  return summary && { ...log, events: [], summary }
+}
+
+function saveRunLog(log: RunLog) {
+  return updateProfileRecord(RUN_LOG_RECORD, (stored) => {
+    const logs = [...parseRunLogs(stored), log]
+    return logs.flatMap((entry, index) => {
+      const keepEvents = index >= logs.length - MAX_FULL_RUN_LOGS && entry.events.length <= MAX_RUN_LOG_EVENTS
+      return (keepEvents ? entry : compactRunLog(entry)) ?? []
+    })
+  })
+}
+
+// Log every run the player flies from the event bus, keeping it once it's over.
+// Bot runs aren't logged. Returns the function that stops logging.
+export function recordRunLogs(events: GameEventBus): () => void {
+  let log: RunLog | null = null
+
+  return events.onAny((event) => {
+    if (event.type === "run_started") {
+      log =
+        event.kind === "bot"
+          ? null
+          : { kind: event.kind, seed: event.seed, mode: event.mode, startedAt: new Date().toISOString(), events: [] }
+      return
+    }
+    if (!log) return
+
+    log.events.push(event)
+    if (event.type === "game_over") {
+      saveRunLog(log).catch((e) => console.error("Error saving run log:", e))
+      log = null
+    }
+  })
+}
@@ -0,0 +1,140 @@
+import { SIMULATION_TICK_RATE } from "./constants"
+import { getDayKey } from "./daily"
+import type { GameMode } from "./modes"
+import type { RunLog } from "./run-log"
+import type { DeathCause, RunEndCause } from "./simulation"
+import { TOKEN_TYPES, type TokenType, getTokenDefinition } from "./tokens"
+import { type TokenCounts, createEmptyTokenCounts } from "./types"
+
+// Statistics over the player's logged runs, shaped for the stats page's charts
+
+export const RUN_END_CAUSES = [
+  "ceiling",
+  "floor",
+  "top_gate",
+  "bottom_gate",
+  "time_up",
+  "finished",
+  "quit",
+] as const satisfies readonly RunEndCause[]
+
+// Average the score over this many runs to show the trend rather than the noise
+const SCORE_TREND_WINDOW = 10
+
+export interface RunSummary {
+  startedAt: string
+  day: string
+  mode: GameMode
+  score: number
+  ticks: number
+  endCause: RunEndCause
+  tokenCounts: TokenCounts
+  effectTicks: TokenCounts // Ticks each token's effect was running
+  effectsAtDeath: TokenType[] // Effects running when the run ended in a crash
+}
+
+function isDeathCause(cause: RunEndCause): cause is DeathCause {
+  return cause === "ceiling" || cause === "floor" || cause === "top_gate" || cause === "bottom_gate"
+}
+
+// Replay a run's events into its summary; null for a log cut off before game over.
+// Logs already boiled down to their summary just hand it back.
+export function summarizeRun(log: RunLog): RunSummary | null {
+  if (log.summary) return log.summary
+
+  const tokenCounts = createEmptyTokenCounts()
+  const effectTicks = createEmptyTokenCounts()
+  const activeCopies = createEmptyTokenCounts()
+  const activeSince = createEmptyTokenCounts()
+
+  for (const event of log.events) {
+    switch (event.type) {
+      case "token_collected":
+        tokenCounts[event.tokenType] = event.count
+        break
+      case "effect_started":
+        if (activeCopies[event.tokenType] === 0) activeSince[event.tokenType] = event.tick
+        activeCopies[event.tokenType]++
+        break
+      case "effect_ended":
+        activeCopies[event.tokenType]--
+        if (activeCopies[event.tokenType] === 0) {
+          effectTicks[event.tokenType] += event.tick - activeSince[event.tokenType]
+        }
+        break
+      case "game_over": {
+        const running = TOKEN_TYPES.filter((tokenType) => activeCopies[tokenType] > 0)
+        for (const tokenType of running) effectTicks[tokenType] += event.tick - activeSince[tokenType]
+        return {
+          startedAt: log.startedAt,
+          day: getDayKey(new Date(log.startedAt)),
+          mode: log.mode,
+          score: event.score,
+          ticks: event.tick,
+          endCause: event.cause,
+          tokenCounts,
+          effectTicks,
+          effectsAtDeath: isDeathCause(event.cause) ? running : [],
+        }
+      }
+    }
+  }
+  return null
+}
+
+export function summarizeRuns(logs: RunLog[]): RunSummary[] {
+  return logs.flatMap((log) => summarizeRun(log) ?? [])
+}
+
+function ticksToSeconds(ticks: number) {
+  return ticks / SIMULATION_TICK_RATE
+}
+
+function sum(values: number[]) {
+  return values.reduce((total, value) => total + value, 0)
+}
+
+export function getAverageSurvival(runs: RunSummary[]) {
+  return runs.length === 0 ? 0 : ticksToSeconds(sum(runs.map((run) => run.ticks))) / runs.length
+}
+
+// Every run's score in order, with the average of the runs leading up to it
+export function getScoreTrend(runs: RunSummary[]) {
+  return runs.map((run, index) => {
+    const window = runs.slice(Math.max(0, index + 1 - SCORE_TREND_WINDOW), index + 1)
+    return { run: index + 1, score: run.score, average: sum(window.map(({ score }) => score)) / window.length }
+  })
+}
+
+// Runs flown and how long they lasted on average, for each day played
+export function getDailyActivity(runs: RunSummary[]) {
+  const days = new Map<string, RunSummary[]>()
+  for (const run of runs) days.set(run.day, [...(days.get(run.day) ?? []), run])
+
+  return [...days.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([day, dayRuns]) => ({ day, runs: dayRuns.length, averageSurvival: getAverageSurvival(dayRuns) }))
+}
+
+// How runs ended, leaving out endings that never happened
+export function getEndCauseBreakdown(runs: RunSummary[]) {
+  return RUN_END_CAUSES.map((cause) => ({
+    cause,
+    runs: runs.filter((run) => run.endCause === cause).length,
+  })).filter((slice) => slice.runs > 0)
+}
+
+// Per token: pickups per minute flown, share of the time its effect was running,
+// and how many crashes happened with it running
+export function getTokenStats(runs: RunSummary[]) {
+  const totalTicks = sum(runs.map((run) => run.ticks))
+  const minutes = ticksToSeconds(totalTicks) / 60
+
+  return TOKEN_TYPES.map((tokenType) => ({
+    tokenType,
+    name: getTokenDefinition(tokenType).name,
+    pickupsPerMinute: minutes === 0 ? 0 : sum(runs.map((run) => run.tokenCounts[tokenType])) / minutes,
+    uptime: totalTicks === 0 ? 0 : sum(runs.map((run) => run.effectTicks[tokenType])) / totalTicks,
+    deaths: runs.filter((run) => run.effectsAtDeath.includes(tokenType)).length,
+  }))
+}
@@ -0,0 +1,352 @@
+import { z } from "zod"
+import { CAMPAIGN_STARS } from "./campaign"
+import { DEFAULT_MODE, GAME_MODES, type GameMode } from "./modes"
+import { replaySchema } from "./replay"
+import { DEFAULT_PRESET, DEFAULT_RULES, DIFFICULTY_PRESETS, type DifficultyPreset, gameRulesSchema } from "./rules"
+import { TOKEN_TYPES, type TokenType } from "./tokens"
+import type { TokenCounts } from "./types"
+
+// Everything the game keeps for the player, as one versioned document: chosen
+// settings, records, replays, daily results, campaign progress and achievements. Saves are
+// validated on load and upgraded one version at a time by the migrations
+// below, so an old save is never misread. Token-keyed counts fill in tokens
+// added since they were saved, so adding a token needs no migration. Sections
+// that fail validation are dropped on their own rather than losing the whole save.
+
+export const SAVE_DATA_VERSION = 3
+
+export const MAX_RECENT_REPLAYS = 10
+
+export class SaveDataError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "SaveDataError"
+  }
+}
+
+const storedTokenCountsSchema = z.object(
+  Object.fromEntries(TOKEN_TYPES.map((tokenType) => [tokenType, z.number().int().min(0).default(0)])) as Record<
+    TokenType,
+    z.ZodDefault<z.ZodNumber>
+  >,
+)
+
+const storedReplaySchema = replaySchema.extend({ tokenCounts: storedTokenCountsSchema })
+
+const highScoreSchema = z.object({
+  score: z.number().int().min(0),
+  rules: gameRulesSchema,
+  recordedAt: z.string(),
+})
+
+const dailyResultSchema = z.object({
+  day: z.string(),
+  rankedAttempted: z.boolean(),
+  rankedReplay: storedReplaySchema.nullable(),
+  practiceBest: z.number().int().min(0),
+  practiceRuns: z.number().int().min(0),
+})
+
+const campaignResultSchema = z.object({
+  levelId: z.string(),
+  stars: z.array(z.enum(CAMPAIGN_STARS)),
+  bestScore: z.number().int().min(0),
+  attempts: z.number().int().min(0),
+})
+
+const achievementResultSchema = z.object({
+  progress: z.number().min(0), // Best run or running total, depending on the achievement
+  unlockedAt: z.string().nullable(),
+})
+
+// A section that doesn't validate falls back to empty instead of failing the whole save
+function section<T extends z.ZodTypeAny>(name: string, schema: T, fallback: z.output<T>) {
+  return schema.catch(({ error }: { error: z.ZodError }) => {
+    console.error(`Dropping unreadable ${name} from save data:`, error)
+    return fallback
+  })
+}
+
+// A list keeps the entries that validate and drops the rest
+function validEntries<T extends z.ZodTypeAny>(schema: T) {
+  return z.array(z.unknown()).transform((entries) =>
+    entries.flatMap((entry): z.output<T>[] => {
+      const result = schema.safeParse(entry)
+      return result.success ? [result.data] : []
+    }),
+  )
+}
+
+export const saveDataSchema = z.object({
+  version: z.literal(SAVE_DATA_VERSION),
+  settings: section(
+    "settings",
+    z.object({
+      preset: z.enum(DIFFICULTY_PRESETS).catch(DEFAULT_PRESET),
+      mode: z.enum(GAME_MODES).catch(DEFAULT_MODE),
+      playerName: z.string().nullable().catch(null), // Last name scores were submitted under
+      lastScoreId: z.string().nullable().catch(null), // Last score submitted to the global leaderboard
+    }),
+    { preset: DEFAULT_PRESET, mode: DEFAULT_MODE, playerName: null, lastScoreId: null },
+  ),
+  // Per mode: a high score per difficulty preset, and the most of each token in one run
+  highScores: section(
+    "high scores",
+    z.record(z.enum(GAME_MODES), z.record(z.enum(DIFFICULTY_PRESETS), highScoreSchema)),
+    {},
+  ),
+  tokenRecords: section("token records", z.record(z.enum(GAME_MODES), storedTokenCountsSchema), {}),
+  replays: z.object({
+    recent: section("recent replays", validEntries(storedReplaySchema), []),
+    best: section(
+      "best replays",
+      z.record(z.enum(GAME_MODES), z.record(z.enum(DIFFICULTY_PRESETS), storedReplaySchema)),
+      {},
+    ),
+  }),
+  dailyHistory: section("daily history", z.record(z.string(), dailyResultSchema), {}),
+  campaign: section("campaign progress", z.record(z.string(), campaignResultSchema), {}),
+  achievements: section("achievements", z.record(z.string(), achievementResultSchema), {}),
+})
+
+export type SaveData = z.infer<typeof saveDataSchema>
+export type SaveSettings = SaveData["settings"]
+
+export function createEmptySaveData(): SaveData {
+  return saveDataSchema.parse({
+    version: SAVE_DATA_VERSION,
+    settings: {},
+    highScores: {},
+    tokenRecords: {},
+    replays: { recent: [], best: {} },
+    dailyHistory: {},
+    campaign: {},
+    achievements: {},
+  })
+}
+
+// Before save data existed every record had its own localStorage key. Version 0
+// is a snapshot of those keys, taken the first time the game loads without a save.
+const LEGACY_KEY_PREFIX = "btcGame"
+
+export interface LegacySaveData {
+  version: 0
+  items: Record<string, string>
+}
+
+export function readLegacySaveData(storage: Storage): LegacySaveData | null {
+  const items: Record<string, string> = {}
+  for (let index = 0; index < storage.length; index++) {
+    const key = storage.key(index)
+    const value = key === null ? null : storage.getItem(key)
+    if (key?.startsWith(LEGACY_KEY_PREFIX) && value !== null) items[key] = value
+  }
+  return Object.keys(items).length > 0 ? { version: 0, items } : null
+}
+
+function parseLegacyItem(items: Record<string, string>, key: string): unknown {
+  const saved = items[key]
+  if (saved === undefined) return undefined
+
+  try {
+    return JSON.parse(saved)
+  } catch (e) {
+    console.error(`Error parsing ${key}:`, e)
+    return undefined
+  }
+}
+
+// Endless (and Normal) used the bare key; other modes and presets added ":mode", ":preset" or ":mode:preset"
+function parseLegacyKeySuffix(key: string, baseKey: string) {
+  if (key !== baseKey && !key.startsWith(`${baseKey}:`)) return null
+  const parts = key.slice(baseKey.length + 1).split(":")
+  const mode = GAME_MODES.find((option) => parts.includes(option)) ?? DEFAULT_MODE
+  const preset = DIFFICULTY_PRESETS.find((option) => parts.includes(option)) ?? DEFAULT_PRESET
+  return { mode, preset }
+}
+
+function migrateLegacyKeys({ items }: LegacySaveData) {
+  const highScores: Partial<Record<GameMode, unknown>> = {}
+  const tokenRecords: Partial<Record<GameMode, unknown>> = {}
+  const bestReplays: Partial<Record<GameMode, Partial<Record<DifficultyPreset, unknown>>>> = {}
+
+  for (const key of Object.keys(items)) {
+    const highScoresKey = parseLegacyKeySuffix(key, "btcGameHighScores")
+    if (highScoresKey) highScores[highScoresKey.mode] = parseLegacyItem(items, key)
+
+    const tokenRecordsKey = parseLegacyKeySuffix(key, "btcGameHighestTokenCounts")
+    if (tokenRecordsKey) tokenRecords[tokenRecordsKey.mode] = parseLegacyItem(items, key)
+
+    const bestReplayKey = parseLegacyKeySuffix(key, "btcGameBestReplay")
+    if (bestReplayKey) {
+      bestReplays[bestReplayKey.mode] = {
+        ...bestReplays[bestReplayKey.mode],
+        [bestReplayKey.preset]: parseLegacyItem(items, key),
+      }
+    }
+  }
+
+  // The single high score from before presets and modes was set in Endless on Normal
+  const legacyScore = Number.parseInt(items.btcGameHighScore ?? "", 10)
+  const endlessScores = (highScores[DEFAULT_MODE] ?? {}) as Record<string, unknown>
+  if (legacyScore > 0 && !endlessScores[DEFAULT_PRESET]) {
+    highScores[DEFAULT_MODE] = {
+      ...endlessScores,
+      [DEFAULT_PRESET]: { score: legacyScore, rules: DEFAULT_RULES, recordedAt: new Date(0).toISOString() },
+    }
+  }
+
+  return {
+    version: 1,
+    settings: {
+      preset: items.btcGameDifficulty,
+      mode: items.btcGameMode,
+      playerName: items.btcGamePlayerName ?? null,
+      lastScoreId: items.btcGameLastScoreId ?? null,
+    },
+    highScores,
+    tokenRecords,
+    replays: { recent: parseLegacyItem(items, "btcGameReplays") ?? [], best: bestReplays },
+    dailyHistory: parseLegacyItem(items, "btcGameDailyHistory") ?? {},
+    campaign: parseLegacyItem(items, "btcGameCampaignProgress") ?? {},
+  }
+}
+
+// Version 2 added achievements, which start out with no progress
+function addAchievements(data: { version: 1 }) {
+  return { ...data, version: 2, achievements: {} }
+}
+
+// Version 3 marks the ranked daily attempt as used when it starts; before that
+// only a finished ranked run counted
+function addRankedAttempts(data: { version: 2; dailyHistory?: unknown }) {
+  const history = data.dailyHistory
+  const dailyHistory =
+    history && typeof history === "object"
+      ? Object.fromEntries(
+          Object.entries(history).map(([day, result]) => [
+            day,
+            { ...result, rankedAttempted: (result as { rankedReplay?: unknown } | null)?.rankedReplay != null },
+          ]),
+        )
+      : history
+  return { ...data, version: 3, dailyHistory }
+}
+
+// Each migration takes a save of the version it is keyed by to the next version
+const MIGRATIONS: Record<number, (data: never) => unknown> = {
+  0: migrateLegacyKeys,
+  1: addAchievements,
+  2: addRankedAttempts,
+}
+
+function getSaveVersion(data: unknown) {
+  const version = (data as { version?: unknown } | null)?.version
+  return typeof version === "number" && Number.isInteger(version) && version >= 0 ? version : null
+}
+
+// Saves from a newer version can't be migrated back; they are left alone
+export function isNewerSaveData(data: unknown) {
+  return (getSaveVersion(data) ?? 0) > SAVE_DATA_VERSION
+}
+
+// Bring a save of any known version up to date and validate it
+export function migrateSaveData(data: unknown): SaveData {
+  let current = data
+  let version = getSaveVersion(data)
+  if (version === null) {
+    throw new SaveDataError("Save data has no valid version")
+  }
+  if (isNewerSaveData(data)) {
+    throw new SaveDataError("Save data was made with a newer version of the game")
+  }
+
+  while (version < SAVE_DATA_VERSION) {
+    current = MIGRATIONS[version](current as never)
+    version++
+  }
+
+  const result = saveDataSchema.safeParse(current)
+  if (!result.success) throw new SaveDataError("Save data is unreadable")
+  return result.data
+}
+
+// Combine an imported save with this one, keeping the better of every record.
+// Settings stay as they are here. Merging the same save in twice changes nothing.
+export function mergeSaveData(current: SaveData, incoming: SaveData): SaveData {
+  const merged = structuredClone(current)
+
+  for (const mode of GAME_MODES) {
+    for (const preset of DIFFICULTY_PRESETS) {
+      const highScore = incoming.highScores[mode]?.[preset]
+      if (highScore && highScore.score > (merged.highScores[mode]?.[preset]?.score ?? 0)) {
+        merged.highScores[mode] = { ...merged.highScores[mode], [preset]: highScore }
+      }
+      const bestReplay = incoming.replays.best[mode]?.[preset]
+      const currentBest = merged.replays.best[mode]?.[preset]
+      if (bestReplay && (!currentBest || bestReplay.score > currentBest.score)) {
+        merged.replays.best[mode] = { ...merged.replays.best[mode], [preset]: bestReplay }
+      }
+    }
+
+    const tokenRecords = incoming.tokenRecords[mode]
+    if (tokenRecords) {
+      const currentRecords = merged.tokenRecords[mode]
+      merged.tokenRecords[mode] = Object.fromEntries(
+        TOKEN_TYPES.map((tokenType) => [
+          tokenType,
+          Math.max(currentRecords?.[tokenType] ?? 0, tokenRecords[tokenType]),
+        ]),
+      ) as TokenCounts
+    }
+  }
+
+  // The most recent runs of both, the same run only once
+  const seenRuns = new Set<string>()
+  merged.replays.recent = [...current.replays.recent, ...incoming.replays.recent]
+    .sort((a, b) => b.recordedAt.localeCompare(a.recordedAt))
+    .filter((replay) => {
+      const runKey = `${replay.seed}:${replay.recordedAt}`
+      if (seenRuns.has(runKey)) return false
+      seenRuns.add(runKey)
+      return true
+    })
+    .slice(0, MAX_RECENT_REPLAYS)
+
+  for (const [day, result] of Object.entries(incoming.dailyHistory)) {
+    const currentResult = merged.dailyHistory[day]
+    merged.dailyHistory[day] = currentResult
+      ? {
+          day,
+          rankedAttempted: currentResult.rankedAttempted || result.rankedAttempted,
+          rankedReplay: currentResult.rankedReplay ?? result.rankedReplay,
+          practiceBest: Math.max(currentResult.practiceBest, result.practiceBest),
+          practiceRuns: Math.max(currentResult.practiceRuns, result.practiceRuns),
+        }
+      : result
+  }
+
+  for (const [levelId, result] of Object.entries(incoming.campaign)) {
+    const currentResult = merged.campaign[levelId]
+    merged.campaign[levelId] = currentResult
+      ? {
+          levelId,
+          stars: CAMPAIGN_STARS.filter((star) => currentResult.stars.includes(star) || result.stars.includes(star)),
+          bestScore: Math.max(currentResult.bestScore, result.bestScore),
+          attempts: Math.max(currentResult.attempts, result.attempts),
+        }
+      : result
+  }
+
+  // Unlocked on either side counts, from whichever was first
+  for (const [achievementId, result] of Object.entries(incoming.achievements)) {
+    const currentResult = merged.achievements[achievementId]
+    const unlockedDates = [currentResult?.unlockedAt, result.unlockedAt].filter((date) => date != null).sort()
+    merged.achievements[achievementId] = {
+      progress: Math.max(currentResult?.progress ?? 0, result.progress),
+      unlockedAt: unlockedDates[0] ?? null,
+    }
+  }
+
+  return merged
+}
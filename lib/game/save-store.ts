@@ -0,0 +1,305 @@
+import {
+  type SaveData,
+  SaveDataError,
+  type SaveSettings,
+  createEmptySaveData,
+  mergeSaveData,
+  migrateSaveData,
+  readLegacySaveData,
+} from "./save-data"
+import {
+  DEFAULT_PROFILE_NAME,
+  MAX_PROFILES,
+  PROFILE_COLORS,
+  type Profile,
+  type ProfileDetails,
+  type ProfileList,
+  createProfile,
+  findActiveProfile,
+  profileListSchema,
+  toProfileName,
+} from "./profiles"
+
+// Where save data lives in the browser. IndexedDB is preferred: replays make
+// saves large and it has room for them. Where it can't be opened (some private
+// browsing modes) the save goes to localStorage instead. Every profile has a
+// save of its own, next to the list of profiles. The active profile's save is
+// loaded once, then read synchronously from memory; every change is written
+// back in the background, one write at a time.
+
+interface SaveBackend {
+  name: string
+  read: (key: string) => Promise<unknown>
+  write: (key: string, data: unknown) => Promise<void>
+}
+
+const DATABASE_NAME = "btcGame"
+const DATABASE_VERSION = 1
+const SAVE_STORE_NAME = "save"
+const PROFILE_LIST_KEY = "profiles"
+const SINGLE_SAVE_KEY = "current" // The one save from before profiles, taken over by the first profile
+const LOCAL_STORAGE_SAVE_KEY = "btcGameSave"
+
+function getProfileSaveKey(profileId: string) {
+  return `profile:${profileId}`
+}
+
+function getProfileRecordKey(profileId: string, name: string) {
+  return `profile:${profileId}:${name}`
+}
+
+function requestResult<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function openIndexedDbBackend(): Promise<SaveBackend> {
+  const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION)
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(SAVE_STORE_NAME)
+  }
+  const database = await requestResult(request)
+
+  return {
+    name: "IndexedDB",
+    read: (key) => requestResult(database.transaction(SAVE_STORE_NAME).objectStore(SAVE_STORE_NAME).get(key)),
+    write: async (key, data) => {
+      const transaction = database.transaction(SAVE_STORE_NAME, "readwrite")
+      transaction.objectStore(SAVE_STORE_NAME).put(data, key)
+      await new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve()
+        transaction.onerror = () => reject(transaction.error)
+        transaction.onabort = () => reject(transaction.error)
+      })
+    },
+  }
+}
+
+// The single save kept its original key
+function getLocalStorageKey(key: string) {
+  return key === SINGLE_SAVE_KEY ? LOCAL_STORAGE_SAVE_KEY : `${LOCAL_STORAGE_SAVE_KEY}:${key}`
+}
+
+const localStorageBackend: SaveBackend = {
+  name: "localStorage",
+  read: async (key) => {
+    const saved = localStorage.getItem(getLocalStorageKey(key))
+    return saved === null ? undefined : JSON.parse(saved)
+  },
+  write: async (key, data) => {
+    localStorage.setItem(getLocalStorageKey(key), JSON.stringify(data))
+  },
+}
+
+async function openBackend(): Promise<SaveBackend> {
+  if (typeof indexedDB !== "undefined") {
+    try {
+      return await openIndexedDbBackend()
+    } catch (e) {
+      console.error("IndexedDB unavailable, saving to localStorage instead:", e)
+    }
+  }
+  return localStorageBackend
+}
+
+let backend: SaveBackend | null = null
+let profileList: ProfileList | null = null
+let isProfileListWritable = false // Not when the stored list couldn't be read
+let saveKey: string | null = null // Where the loaded save is written; null while it mustn't be
+let saveData: SaveData | null = null
+let loading: Promise<void> | null = null
+let pendingWrite: Promise<void> = Promise.resolve()
+
+function write(key: string, data: unknown) {
+  const target = backend
+  if (!target) return
+  pendingWrite = pendingWrite
+    .then(() => target.write(key, data))
+    .catch((e) => console.error(`Error writing ${key} to ${target.name}:`, e))
+}
+
+function writeSaveData(data: SaveData) {
+  if (saveKey) write(saveKey, data)
+}
+
+function writeProfileList(list: ProfileList) {
+  profileList = list
+  if (isProfileListWritable) write(PROFILE_LIST_KEY, list)
+}
+
+// A profile's stored save. The first profile carries over the save from before
+// profiles or, on the first load after updating, the old per-record keys.
+async function readStoredSave(opened: SaveBackend, profileId: string, isFirstProfile: boolean) {
+  const stored = await opened.read(getProfileSaveKey(profileId))
+  if (stored !== undefined && stored !== null) return { stored, isCarriedOver: false }
+  if (!isFirstProfile) return { stored: undefined, isCarriedOver: true }
+  return { stored: (await opened.read(SINGLE_SAVE_KEY)) ?? readLegacySaveData(localStorage), isCarriedOver: true }
+}
+
+async function openProfileSave(opened: SaveBackend, profileId: string, isFirstProfile: boolean): Promise<SaveData> {
+  saveKey = null
+  let found: Awaited<ReturnType<typeof readStoredSave>>
+  try {
+    found = await readStoredSave(opened, profileId, isFirstProfile)
+  } catch (e) {
+    console.error(`Error reading save data from ${opened.name}:`, e)
+    return createEmptySaveData() // Left unsaved so whatever is stored isn't overwritten
+  }
+
+  const { stored, isCarriedOver } = found
+  try {
+    const data = stored ? migrateSaveData(stored) : createEmptySaveData()
+    // Without a readable profile list the save couldn't be found again, so it isn't kept
+    saveKey = isProfileListWritable ? getProfileSaveKey(profileId) : null
+    if (isCarriedOver || (stored as SaveData).version !== data.version) writeSaveData(data)
+    return data
+  } catch (e) {
+    // Keep playing on an empty save, but never overwrite one that can't be read, e.g. from a newer version
+    console.error("Error loading save data:", e)
+    return createEmptySaveData()
+  }
+}
+
+async function openSaveData(): Promise<SaveData> {
+  backend = await openBackend()
+  let stored: unknown
+  try {
+    stored = await backend.read(PROFILE_LIST_KEY)
+    isProfileListWritable = true
+  } catch (e) {
+    console.error(`Error reading profiles from ${backend.name}:`, e)
+  }
+
+  if (stored !== undefined && stored !== null) {
+    const result = profileListSchema.safeParse(stored)
+    if (result.success) {
+      profileList = result.data
+      return openProfileSave(backend, result.data.activeProfileId, false)
+    }
+    console.error("Error loading profiles:", result.error)
+    isProfileListWritable = false
+  }
+
+  // No profiles yet: the first one is named after the player's leaderboard name if they have one
+  const profile = createProfile({ name: DEFAULT_PROFILE_NAME, color: PROFILE_COLORS[0] })
+  const data = await openProfileSave(backend, profile.id, true)
+  profile.name = toProfileName(data.settings.playerName)
+  writeProfileList({ activeProfileId: profile.id, profiles: [profile] })
+  return data
+}
+
+// Nothing could be opened: play on an empty save under a stand-in profile, neither of them written
+function openUnsavedSaveData(): SaveData {
+  isProfileListWritable = false
+  saveKey = null
+  const profile = createProfile({ name: DEFAULT_PROFILE_NAME, color: PROFILE_COLORS[0] })
+  profileList = { activeProfileId: profile.id, profiles: [profile] }
+  return createEmptySaveData()
+}
+
+// Load the active profile's save once; later calls resolve to it as it is now
+export async function loadSaveData(): Promise<SaveData> {
+  loading ??= openSaveData()
+    .catch((e) => {
+      console.error("Error opening save data:", e)
+      return openUnsavedSaveData()
+    })
+    .then((data) => {
+      saveData = data
+    })
+  await loading
+  return getSaveData()
+}
+
+export function getSaveData(): SaveData {
+  if (!saveData) throw new SaveDataError("Save data used before it was loaded")
+  return saveData
+}
+
+// Change a copy of the save, keep it and write it back; earlier copies handed out stay untouched
+export function updateSaveData(update: (data: SaveData) => void): SaveData {
+  const next = structuredClone(getSaveData())
+  update(next)
+  saveData = next
+  writeSaveData(next)
+  return next
+}
+
+export function saveSettings(settings: Partial<SaveSettings>): SaveData {
+  return updateSaveData((data) => {
+    data.settings = { ...data.settings, ...settings }
+  })
+}
+
+// Bring in a save from elsewhere, either on top of this one or instead of it
+export function importSaveData(incoming: SaveData, strategy: "merge" | "replace"): SaveData {
+  const next = strategy === "merge" ? mergeSaveData(getSaveData(), incoming) : structuredClone(incoming)
+  saveData = next
+  writeSaveData(next)
+  return next
+}
+
+export function getProfileList(): ProfileList {
+  if (!profileList) throw new SaveDataError("Profiles used before they were loaded")
+  return profileList
+}
+
+export function getActiveProfile(): Profile {
+  return findActiveProfile(getProfileList())
+}
+
+// Make another profile the active one and load its save
+export function switchProfile(profileId: string): Promise<SaveData> {
+  const switched = loadSaveData().then(async () => {
+    const { profiles } = getProfileList()
+    const opened = backend
+    if (!opened) throw new SaveDataError("Save data used before it was loaded")
+    if (!profiles.some((profile) => profile.id === profileId)) {
+      throw new SaveDataError(`There is no profile ${profileId}`)
+    }
+
+    writeProfileList({ activeProfileId: profileId, profiles })
+    // Writes still queued for the previous profile's save finish first
+    await pendingWrite
+    saveData = await openProfileSave(opened, profileId, false)
+    return saveData
+  })
+
+  loading = switched.then(() => undefined).catch(() => undefined) // A failed switch stays on the loaded profile
+  return switched
+}
+
+// Add a profile with an empty save and switch to it
+export async function addProfile(details: ProfileDetails): Promise<SaveData> {
+  await loadSaveData()
+  const { profiles } = getProfileList()
+  if (profiles.length >= MAX_PROFILES) throw new SaveDataError(`There can be at most ${MAX_PROFILES} profiles`)
+
+  const profile = createProfile(details)
+  writeProfileList({ ...getProfileList(), profiles: [...profiles, profile] })
+  return switchProfile(profile.id)
+}
+
+// Data kept beside the active profile's save, like its run history. It isn't
+// part of the save, so it stays out of exports and doesn't slow down saving.
+export async function loadProfileRecord(name: string): Promise<unknown> {
+  await loadSaveData()
+  await pendingWrite // Read back what was written last
+  const opened = backend
+  return opened ? opened.read(getProfileRecordKey(getActiveProfile().id, name)) : undefined
+}
+
+// Read a record, change it and write it back as one step in the write queue, so
+// updates close together each see the one before. Rejects if the write fails.
+export async function updateProfileRecord(name: string, update: (stored: unknown) => unknown): Promise<void> {
+  await loadSaveData()
+  const target = backend
+  if (!target || !isProfileListWritable) return
+
+  const key = getProfileRecordKey(getActiveProfile().id, name)
+  const task = pendingWrite.then(async () => target.write(key, update(await target.read(key))))
+  pendingWrite = task.catch(() => undefined) // The caller hears about a failure; the queue carries on
+  return task
+}
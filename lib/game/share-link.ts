@@ -0,0 +1,99 @@
+import { z } from "zod"
+import { type Level, LevelError, parseLevel } from "./level"
+import { DEFAULT_MODE, GAME_MODES, type GameMode } from "./modes"
+import { DEFAULT_PRESET, DIFFICULTY_PRESETS, type DifficultyPreset } from "./rules"
+
+// Shareable course links: a seed (plus difficulty preset and mode) or a whole
+// level, and optionally the score to beat, packed into the URL hash so a link
+// pasted in chat opens straight onto that exact course. Levels are deflated and
+// base64url encoded. Nothing goes through a server.
+
+export type SharedCourse =
+  | { kind: "seed"; seed: number; preset: DifficultyPreset; mode: GameMode; score: number | null }
+  | { kind: "level"; level: Level; preset: DifficultyPreset; score: number | null }
+
+export class ShareLinkError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "ShareLinkError"
+  }
+}
+
+// In every current browser, but not yet in this TypeScript version's DOM types
+declare const CompressionStream: new (format: "deflate-raw") => TransformStream<Uint8Array, Uint8Array>
+declare const DecompressionStream: new (format: "deflate-raw") => TransformStream<Uint8Array, Uint8Array>
+
+const shareParamsSchema = z.object({
+  seed: z.coerce.number().int().min(0).max(0xffffffff).optional(),
+  level: z.string().min(1).optional(),
+  preset: z.enum(DIFFICULTY_PRESETS).default(DEFAULT_PRESET),
+  mode: z.enum(GAME_MODES).default(DEFAULT_MODE),
+  score: z.coerce.number().int().min(0).optional(),
+})
+
+async function deflate(text: string) {
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream("deflate-raw"))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+async function inflate(bytes: Uint8Array) {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream("deflate-raw"))
+  return new Response(stream).text()
+}
+
+function toBase64Url(bytes: Uint8Array) {
+  let binary = ""
+  for (const byte of bytes) binary += String.fromCharCode(byte)
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+function fromBase64Url(text: string) {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"))
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0))
+}
+
+// The hash (without "#") that opens a course
+export async function createShareHash(course: SharedCourse) {
+  const params = new URLSearchParams()
+  if (course.kind === "seed") {
+    params.set("seed", String(course.seed))
+    params.set("preset", course.preset)
+    params.set("mode", course.mode)
+  } else {
+    params.set("level", toBase64Url(await deflate(JSON.stringify(course.level))))
+    params.set("preset", course.preset)
+  }
+  if (course.score !== null) params.set("score", String(course.score))
+  return params.toString()
+}
+
+export async function createShareUrl(course: SharedCourse) {
+  return `${window.location.origin}/#${await createShareHash(course)}`
+}
+
+// Read a course from a URL hash; null when the hash isn't a share link at all
+export async function parseShareHash(hash: string): Promise<SharedCourse | null> {
+  const params = new URLSearchParams(hash.replace(/^#/, ""))
+  if (!params.has("seed") && !params.has("level")) return null
+
+  const parsed = shareParamsSchema.safeParse(Object.fromEntries(params))
+  if (!parsed.success) {
+    throw new ShareLinkError("This link's course settings are invalid")
+  }
+  const { seed, level: packedLevel, preset, mode, score = null } = parsed.data
+
+  if (packedLevel !== undefined) {
+    let text: string
+    try {
+      text = await inflate(fromBase64Url(packedLevel))
+    } catch {
+      throw new ShareLinkError("This link's level is damaged; it may have been cut off")
+    }
+    try {
+      return { kind: "level", level: parseLevel(text), preset, score }
+    } catch (e) {
+      throw new ShareLinkError(e instanceof LevelError ? `This link's level is invalid: ${e.message}` : String(e))
+    }
+  }
+  return { kind: "seed", seed: seed!, preset, mode, score }
+}
@@ -0,0 +1,554 @@
+import {
+  GAME_HEIGHT,
+  GAME_WIDTH,
+  GATE_DISTANCE,
+  GATE_WIDTH,
+  LINE_X_POSITION,
+  MAX_VERTICAL_VARIANCE,
+  MIN_VERTICAL_VARIANCE,
+  NEAR_MISS_DISTANCE,
+  SIMULATION_STEP_MS,
+  TOKEN_COLLECTION_RADIUS,
+} from "./constants"
+import { type Level, getLevelGateGap, getLevelSpeed } from "./level"
+import { type MarketCourse, getCandleGate } from "./market-data"
+import { DEFAULT_MODE, type GameMode, getModeDefinition, getModeRules } from "./modes"
+import { nextRandom, normalizeSeed } from "./rng"
+import { DEFAULT_RULES, type GameRules } from "./rules"
+import { TOKEN_DEFINITIONS, type TokenType, effectsCompete, getTokenDefinition } from "./tokens"
+import { type Gate, type TokenCounts, type TokenEffect, createEmptyTokenCounts } from "./types"
+
+// Headless game simulation: no canvas, no React, no timers.
+// Feed it the previous state and the player's input and it advances exactly
+// one fixed step (SIMULATION_STEP_MS), handing back the next state plus
+// whatever happened during the step. Every duration is counted in ticks so
+// a run plays out identically regardless of the display's refresh rate.
+
+export type DeathCause = "ceiling" | "floor" | "top_gate" | "bottom_gate"
+
+// Why a run ended: a crash, the clock running out, the last gate of a level or the player ending it
+export type RunEndCause = DeathCause | "time_up" | "finished" | "quit"
+
+// An effect either runs out or is cut short by a stronger token that overrides it
+export type EffectEndReason = "expired" | "overridden"
+
+export interface SimulationState {
+  seed: number // Seed the run was started with
+  market: MarketCourse | null // Historical candles the gates are built from, null for a random course
+  level: Level | null // Hand-made gates to fly instead of a random course
+  mode: GameMode
+  baseRules: GameRules // The rules the run was started with, as recorded in its replay
+  rules: GameRules // baseRules after the mode's adjustments; what the run is actually played with
+  rngState: number // Current state of the seeded generator
+  tick: number // Number of fixed steps simulated so far
+  lineY: number
+  lineVelocity: number
+  isAscending: boolean
+  gates: Gate[]
+  nextGateId: number
+  lastGateX: number // Track the x position of the last gate
+  gatesPassed: number
+  collisions: number // Crashes that only cost score (Zen)
+  nearMisses: number // Gates cleared by less than NEAR_MISS_DISTANCE
+  score: number
+  difficultyLevel: number
+  baseSpeed: number // Base speed that will increase with difficulty
+  currentSpeed: number
+  activeEffects: TokenEffect[]
+  lastTokenType: TokenType | null // Track the last token type spawned
+  screenFlashTick: number | null // When the last pickup flash started
+  tokenCounts: TokenCounts
+  isGameOver: boolean
+  deathCause: DeathCause | null // null while alive and for runs that ended without a crash
+}
+
+export interface SimulationInput {
+  bounce: boolean
+  quit?: boolean // End the run after this step
+}
+
+export type SimulationEvent =
+  | { type: "gate_passed"; gatesPassed: number; score: number }
+  | { type: "token_collected"; tokenType: TokenType; count: number; score: number }
+  | { type: "collision"; cause: DeathCause; collisions: number; score: number }
+  | { type: "near_miss"; nearMisses: number; clearance: number }
+  | { type: "effect_started"; tokenType: TokenType }
+  | { type: "effect_ended"; tokenType: TokenType; reason: EffectEndReason }
+  | { type: "difficulty_up"; level: number; speed: number }
+  | { type: "game_over"; cause: RunEndCause; score: number }
+
+export interface SimulationStepResult {
+  state: SimulationState
+  events: SimulationEvent[]
+}
+
+// Everything the active effects currently do, folded together from the token
+// registry. Used by both physics and rendering.
+export interface EffectFlags {
+  gapMultiplier: number
+  gravityDisabled: boolean
+  collisionDisabled: boolean
+  velocityJitter: number
+  isGoldMode: boolean
+  flashingGates: boolean
+  translucentGates: boolean
+  steadyRocket: boolean
+  trailColor: string | null
+  rocketGlow: string | null
+  screenTint: string | null
+}
+
+export function getEffectFlags(state: SimulationState): EffectFlags {
+  const flags: EffectFlags = {
+    gapMultiplier: 1,
+    gravityDisabled: false,
+    collisionDisabled: false,
+    velocityJitter: 0,
+    isGoldMode: false,
+    flashingGates: false,
+    translucentGates: false,
+    steadyRocket: false,
+    trailColor: null,
+    rocketGlow: null,
+    screenTint: null,
+  }
+
+  for (const effect of state.activeEffects) {
+    const { effect: hooks, visuals } = getTokenDefinition(effect.type)
+
+    // Only "stack" tokens keep several copies, and those compound
+    flags.gapMultiplier *= hooks.gapMultiplier ?? 1
+    flags.velocityJitter += hooks.velocityJitter ?? 0
+    flags.gravityDisabled ||= hooks.disablesGravity ?? false
+    flags.collisionDisabled ||= hooks.disablesCollision ?? false
+
+    flags.isGoldMode ||= visuals.goldMode ?? false
+    flags.flashingGates ||= visuals.flashingGates ?? false
+    flags.translucentGates ||= visuals.translucentGates ?? false
+    flags.steadyRocket ||= visuals.steadyRocket ?? false
+    flags.trailColor = visuals.trailColor ?? flags.trailColor
+    flags.rocketGlow = visuals.rocketGlow ?? flags.rocketGlow
+    flags.screenTint = visuals.screenTint ?? flags.screenTint
+  }
+
+  return flags
+}
+
+// The gap a gate currently has, taking effects like the BTC widening into account
+export function getGateGap(gate: Gate, flags: EffectFlags) {
+  return gate.baseGateGap * flags.gapMultiplier
+}
+
+// Convert a duration in milliseconds to a whole number of simulation steps
+export function msToTicks(ms: number) {
+  return Math.round(ms / SIMULATION_STEP_MS)
+}
+
+// Simulation clock in milliseconds, for anything that wants wall-clock style timing
+export function getSimulationTime(state: SimulationState) {
+  return state.tick * SIMULATION_STEP_MS
+}
+
+export interface InitialStateOptions {
+  market?: MarketCourse | null
+  level?: Level | null
+  rules?: GameRules // Normal difficulty by default
+  mode?: GameMode // Endless by default
+}
+
+export function createInitialState(
+  seed: number,
+  { market = null, level = null, rules: baseRules = DEFAULT_RULES, mode = DEFAULT_MODE }: InitialStateOptions = {},
+): SimulationState {
+  const normalizedSeed = normalizeSeed(seed)
+  const rules = getModeRules(mode, baseRules)
+  const startSpeed = level ? getLevelSpeed(level, 0, rules) : rules.gateSpeed
+  const state: SimulationState = {
+    seed: normalizedSeed,
+    market,
+    level,
+    mode,
+    baseRules,
+    rules,
+    rngState: normalizedSeed,
+    tick: 0,
+    lineY: GAME_HEIGHT / 2,
+    lineVelocity: 0,
+    isAscending: false,
+    gates: [],
+    nextGateId: 0,
+    lastGateX: GAME_WIDTH,
+    gatesPassed: 0,
+    collisions: 0,
+    nearMisses: 0,
+    score: 0,
+    difficultyLevel: 1,
+    baseSpeed: startSpeed,
+    currentSpeed: startSpeed,
+    activeEffects: [],
+    lastTokenType: null,
+    screenFlashTick: null,
+    tokenCounts: createEmptyTokenCounts(),
+    isGameOver: false,
+    deathCause: null,
+  }
+
+  // Initialize with a gate at the right edge of the screen
+  spawnGate(state)
+
+  return state
+}
+
+export function stepSimulation(previous: SimulationState, input: SimulationInput): SimulationStepResult {
+  const events: SimulationEvent[] = []
+  if (previous.isGameOver) {
+    return { state: previous, events }
+  }
+
+  // Work on a copy so callers can keep the previous state around
+  const state: SimulationState = {
+    ...previous,
+    gates: previous.gates.map((gate) => ({ ...gate })),
+    activeEffects: previous.activeEffects.map((effect) => ({ ...effect })),
+    tokenCounts: { ...previous.tokenCounts },
+  }
+
+  state.tick++
+
+  // Use static bounce height
+  if (input.bounce) {
+    state.lineVelocity = state.rules.bounceVelocity
+    state.isAscending = true
+  }
+
+  processEffects(state, events)
+  const flags = getEffectFlags(state)
+  const mode = getModeDefinition(state.mode)
+
+  // Update line position
+  if (!flags.gravityDisabled) {
+    // Normal gravity unless an effect (SOL) switches it off
+    state.lineVelocity += state.rules.gravity
+  }
+
+  // Apply chaos (BCH) if active
+  if (flags.velocityJitter > 0) {
+    state.lineVelocity += (random(state) - 0.5) * flags.velocityJitter
+  }
+
+  state.lineY += state.lineVelocity
+
+  // Line changes color based on direction
+  state.isAscending = state.lineVelocity <= 0
+
+  // Check if we need to spawn a new gate (when the last gate has moved in by the spacing to the next)
+  const spacing = getNextGateSpacing(state)
+  if (spacing !== null && state.lastGateX <= GAME_WIDTH - spacing) {
+    spawnGate(state)
+  }
+
+  // Update gates
+  const gates: Gate[] = []
+  for (const gate of state.gates) {
+    gate.x -= state.currentSpeed
+
+    // Update the last gate position if this is the rightmost gate
+    if (gate.x > state.lastGateX - GATE_WIDTH) {
+      state.lastGateX = gate.x
+    }
+
+    const actualGateGap = getGateGap(gate, flags)
+
+    // Check if any part of the gate overlaps with the line's x position
+    if (gate.x <= LINE_X_POSITION && gate.x + GATE_WIDTH >= LINE_X_POSITION) {
+      // Some effects (SOL) make the rocket pass straight through gates
+      if (!flags.collisionDisabled) {
+        const cause =
+          state.lineY <= gate.topHeight
+            ? "top_gate"
+            : state.lineY >= gate.topHeight + actualGateGap
+              ? "bottom_gate"
+              : null
+        if (cause && mode.collisionPenalty === undefined) {
+          endGame(state, cause, events)
+          return { state, events }
+        }
+        // Without death the rocket flies on through, paying once per gate
+        if (cause && !gate.hasCollided) {
+          gate.hasCollided = true
+          recordCollision(state, cause, events)
+        }
+        if (!cause) {
+          const clearance = Math.min(state.lineY - gate.topHeight, gate.topHeight + actualGateGap - state.lineY)
+          gate.closestClearance = Math.min(gate.closestClearance, clearance)
+        }
+      }
+
+      // Check if token was collected
+      if (gate.tokenType !== null) {
+        const tokenY = gate.topHeight + actualGateGap / 2
+        if (Math.abs(state.lineY - tokenY) < TOKEN_COLLECTION_RADIUS) {
+          const tokenType = gate.tokenType
+
+          // Trigger screen flash
+          state.screenFlashTick = state.tick
+
+          state.tokenCounts[tokenType] += 1
+          state.score = mode.getScore(state)
+          events.push({
+            type: "token_collected",
+            tokenType,
+            count: state.tokenCounts[tokenType],
+            score: state.score,
+          })
+          applyTokenEffect(state, tokenType, events)
+
+          // Remove the token
+          gate.tokenType = null
+        }
+      }
+    }
+
+    // Check if gate has been passed
+    if (!gate.hasPassed && gate.x + GATE_WIDTH < LINE_X_POSITION) {
+      gate.hasPassed = true
+      state.gatesPassed++
+      state.score = mode.getScore(state)
+      events.push({ type: "gate_passed", gatesPassed: state.gatesPassed, score: state.score })
+
+      // Scraping through without touching counts as a near miss
+      if (!gate.hasCollided && gate.closestClearance < NEAR_MISS_DISTANCE) {
+        state.nearMisses++
+        events.push({ type: "near_miss", nearMisses: state.nearMisses, clearance: gate.closestClearance })
+      }
+
+      // Check if we need to increase difficulty; a level sets its own speed instead
+      if (state.level) {
+        state.baseSpeed = getLevelSpeed(state.level, state.gatesPassed, state.rules)
+      } else if (state.gatesPassed % state.rules.difficultyGateThreshold === 0) {
+        state.difficultyLevel++
+        state.baseSpeed = state.rules.gateSpeed * (1 + (state.difficultyLevel - 1) * state.rules.difficultyIncrease)
+        events.push({ type: "difficulty_up", level: state.difficultyLevel, speed: state.baseSpeed })
+      }
+
+      // A level is over once its last gate is behind the player
+      if (state.level && state.gatesPassed >= state.level.gates.length) {
+        endGame(state, "finished", events)
+        return { state, events }
+      }
+    }
+
+    // Keep gates until they have scrolled off the left edge
+    if (gate.x + GATE_WIDTH > 0) {
+      gates.push(gate)
+    }
+  }
+  state.gates = gates
+
+  // Check game over conditions
+  const edgeCause = state.lineY < 0 ? "ceiling" : state.lineY > GAME_HEIGHT ? "floor" : null
+  if (edgeCause && mode.collisionPenalty === undefined) {
+    endGame(state, edgeCause, events)
+  } else if (edgeCause) {
+    // Without death the edges push back: the ceiling stops the rocket, the floor bounces it
+    state.lineY = edgeCause === "ceiling" ? 0 : GAME_HEIGHT
+    state.lineVelocity = edgeCause === "ceiling" ? 0 : state.rules.bounceVelocity
+    state.isAscending = state.lineVelocity <= 0
+    recordCollision(state, edgeCause, events)
+  }
+
+  if (!state.isGameOver && mode.timeLimit !== undefined && state.tick >= msToTicks(mode.timeLimit)) {
+    endGame(state, "time_up", events)
+  }
+  if (!state.isGameOver && input.quit) {
+    endGame(state, "quit", events)
+  }
+
+  return { state, events }
+}
+
+function endGame(state: SimulationState, cause: RunEndCause, events: SimulationEvent[]) {
+  state.isGameOver = true
+  state.deathCause = cause === "time_up" || cause === "finished" || cause === "quit" ? null : cause
+  events.push({ type: "game_over", cause, score: state.score })
+}
+
+// A crash in a mode without death costs score instead
+function recordCollision(state: SimulationState, cause: DeathCause, events: SimulationEvent[]) {
+  state.collisions++
+  state.score = getModeDefinition(state.mode).getScore(state)
+  events.push({ type: "collision", cause, collisions: state.collisions, score: state.score })
+}
+
+// Function to process active effects
+function processEffects(state: SimulationState, events: SimulationEvent[]) {
+  // Remove expired effects
+  state.activeEffects = state.activeEffects.filter((effect) => {
+    if (effect.endTick > state.tick) return true
+    events.push({ type: "effect_ended", tokenType: effect.type, reason: "expired" })
+    return false
+  })
+
+  // Reset effect states
+  state.currentSpeed = state.baseSpeed * getSpeedMultiplier(state.activeEffects)
+
+  for (const effect of state.activeEffects) {
+    if (getTokenDefinition(effect.type).effect.freezesVelocity) {
+      // Make the rocket go straight
+      state.lineVelocity = 0
+    }
+  }
+}
+
+// Only one token gets to set the speed: the highest priority one, the most
+// recently picked up on a tie. Stacked copies of that token compound.
+function getSpeedMultiplier(activeEffects: TokenEffect[]) {
+  let winner: TokenEffect | null = null
+  for (const effect of activeEffects) {
+    const definition = getTokenDefinition(effect.type)
+    if (definition.effect.speedMultiplier === undefined) continue
+    if (
+      !winner ||
+      definition.priority > getTokenDefinition(winner.type).priority ||
+      (definition.priority === getTokenDefinition(winner.type).priority && effect.startTick >= winner.startTick)
+    ) {
+      winner = effect
+    }
+  }
+  if (!winner) return 1
+
+  const winnerType = winner.type
+  const definition = getTokenDefinition(winnerType)
+  const copies = activeEffects.filter((effect) => effect.type === winnerType).length
+  return Math.pow(definition.effect.speedMultiplier ?? 1, copies)
+}
+
+// Function to apply token effects, following the token's stacking rule
+function applyTokenEffect(state: SimulationState, tokenType: TokenType, events: SimulationEvent[]) {
+  const definition = getTokenDefinition(tokenType)
+  const duration = msToTicks(state.rules.effectDurations[tokenType])
+
+  if (definition.stacking === "override") {
+    state.activeEffects = state.activeEffects.filter((effect) => {
+      if (effect.type === tokenType) return true
+      const other = getTokenDefinition(effect.type)
+      if (!effectsCompete(definition, other) || other.priority > definition.priority) return true
+      events.push({ type: "effect_ended", tokenType: effect.type, reason: "overridden" })
+      return false
+    })
+  }
+
+  // Extending or restarting a running effect doesn't start a new one
+  const existing = state.activeEffects.find((effect) => effect.type === tokenType)
+  if (!existing || definition.stacking === "stack") {
+    state.activeEffects.push({ type: tokenType, startTick: state.tick, endTick: state.tick + duration })
+    events.push({ type: "effect_started", tokenType })
+  } else if (definition.stacking === "extend") {
+    existing.endTick += duration
+  } else {
+    // refresh and override both restart the timer
+    existing.startTick = state.tick
+    existing.endTick = state.tick + duration
+  }
+}
+
+// Draw the next number from the run's seeded generator
+function random(state: SimulationState) {
+  const result = nextRandom(state.rngState)
+  state.rngState = result.state
+  return result.value
+}
+
+// Function to get a random vertical variance for gates
+function getRandomVerticalVariance(state: SimulationState) {
+  return MIN_VERTICAL_VARIANCE + random(state) * (MAX_VERTICAL_VARIANCE - MIN_VERTICAL_VARIANCE)
+}
+
+// Function to get a random token type different from the last one
+function getRandomTokenType(state: SimulationState): TokenType | null {
+  const tokenRoll = random(state)
+  if (tokenRoll >= state.rules.tokenSpawnChance) return null
+
+  // Pick by spawn weight, excluding the last one spawned
+  const possibleTokens = TOKEN_DEFINITIONS.filter((definition) => definition.id !== state.lastTokenType)
+  const totalWeight = possibleTokens.reduce((total, definition) => total + definition.spawnWeight, 0)
+  if (totalWeight <= 0) return null
+
+  let pick = random(state) * totalWeight
+  for (const definition of possibleTokens) {
+    pick -= definition.spawnWeight
+    if (pick < 0) return definition.id
+  }
+  return possibleTokens[possibleTokens.length - 1].id
+}
+
+// Gate position and gap for a random course
+function getRandomGateShape(state: SimulationState) {
+  // Add vertical variance to make the game more challenging
+  const verticalVariance = getRandomVerticalVariance(state)
+
+  // Ensure the gate is still within playable bounds
+  const minTopHeight = 50
+  const maxTopHeight = GAME_HEIGHT - state.rules.initialGateGap - 100
+  let topHeight = random(state) * (maxTopHeight - minTopHeight) + minTopHeight
+
+  // Apply vertical variance but ensure gate stays within bounds
+  topHeight += verticalVariance
+  topHeight = Math.max(minTopHeight, Math.min(maxTopHeight, topHeight))
+
+  // Determine if this should be a narrow gate
+  const isNarrowGate = random(state) < state.rules.narrowGateChance
+  const baseGateGap = isNarrowGate ? state.rules.narrowGateGap : state.rules.initialGateGap
+
+  return { topHeight, baseGateGap }
+}
+
+// How far the last gate has to move in before the next one spawns, or null once a level has no gates left
+function getNextGateSpacing(state: SimulationState) {
+  if (!state.level) return GATE_DISTANCE
+  return state.level.gates[state.nextGateId]?.spacing ?? null
+}
+
+// Spawn a new gate at the right edge of the screen
+function spawnGate(state: SimulationState) {
+  // A level's gates come exactly as designed, token included
+  const levelGate = state.level?.gates[state.nextGateId]
+  if (levelGate) {
+    state.gates.push({
+      id: state.nextGateId++,
+      x: GAME_WIDTH,
+      topHeight: levelGate.topHeight,
+      hasPassed: false,
+      hasCollided: false,
+      closestClearance: Infinity,
+      tokenType: levelGate.token,
+      baseGateGap: getLevelGateGap(levelGate, state.rules),
+      candle: null,
+    })
+    state.lastGateX = GAME_WIDTH
+    return
+  }
+
+  // In market data mode the candles set the shape, looping once history runs out
+  const candle = state.market ? state.market.candles[state.nextGateId % state.market.candles.length] : null
+  const { topHeight, baseGateGap } =
+    state.market && candle ? getCandleGate(state.market, candle, state.rules) : getRandomGateShape(state)
+
+  // Get a random token type different from the last one
+  const tokenType = getRandomTokenType(state)
+  state.lastTokenType = tokenType
+
+  state.gates.push({
+    id: state.nextGateId++,
+    x: GAME_WIDTH,
+    topHeight,
+    hasPassed: false,
+    hasCollided: false,
+    closestClearance: Infinity,
+    tokenType,
+    baseGateGap,
+    candle,
+  })
+
+  state.lastGateX = GAME_WIDTH
+}
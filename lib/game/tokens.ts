@@ -0,0 +1,289 @@
+import { BCH_CHAOS_DURATION, BTC_SPEED_BOOST, GATE_GAP_INCREASE_PERCENT, SOL_EFFECT_DURATION, SOL_SPEED_BOOST } from "./constants"
+
+// Token registry. Every token the game knows about is one entry here: how it
+// looks, how often it spawns, how long its effect lasts and what that effect
+// does to the simulation and the renderer. Spawning, effects, the canvas HUD
+// and the game-over screen all iterate this list, so adding a token is one entry.
+
+// How an active token bends the rules of the simulation
+export interface TokenEffectHooks {
+  speedMultiplier?: number // Multiplies the base scroll speed
+  gapMultiplier?: number // Multiplies every gate's gap
+  disablesGravity?: boolean
+  freezesVelocity?: boolean // Holds the rocket perfectly level
+  disablesCollision?: boolean
+  velocityJitter?: number // Random velocity kick per step, in [-jitter / 2, jitter / 2]
+}
+
+// How an active token changes what the player sees
+export interface TokenVisuals {
+  goldMode?: boolean // Gold background, gates and trail
+  flashingGates?: boolean // Gate colours swap every 200ms
+  translucentGates?: boolean
+  trailColor?: string
+  rocketGlow?: string
+  steadyRocket?: boolean // Rocket stops tilting with direction
+  screenTint?: string
+}
+
+// What happens when a token is picked up while effects are already running
+//  refresh  - one copy; picking it up again restarts the timer at the full duration
+//  extend   - one copy; picking it up again adds the full duration to what is left
+//  stack    - every pickup runs its own copy and timer; multipliers and jitter compound
+//  override - cancels active effects that touch any of the same hooks with equal or
+//             lower priority, then behaves like refresh
+export type EffectStacking = "refresh" | "extend" | "stack" | "override"
+
+export interface TokenDefinition {
+  id: string
+  name: string
+  color: string // Coin colour, also used for HUD accents
+  spawnWeight: number // Relative chance among tokens when a gate gets one
+  price: number // What one token adds to the portfolio in Token Rush
+  duration: number // Effect duration in milliseconds
+  stacking: EffectStacking
+  priority: number // When several effects set the speed, the highest priority wins
+  effect: TokenEffectHooks
+  visuals: TokenVisuals
+  // Draws the coin centred on the origin at the reference radius (TOKEN_ICON_RADIUS)
+  drawIcon: (ctx: CanvasRenderingContext2D) => void
+}
+
+export const TOKEN_ICON_RADIUS = 25
+
+// Chance that a newly spawned gate carries a token at all
+export const TOKEN_SPAWN_CHANCE = 0.25
+
+function drawCoin(ctx: CanvasRenderingContext2D, color: string) {
+  ctx.fillStyle = color
+  ctx.beginPath()
+  ctx.arc(0, 0, TOKEN_ICON_RADIUS, 0, Math.PI * 2)
+  ctx.fill()
+}
+
+function drawSymbol(ctx: CanvasRenderingContext2D, symbol: string, font: string) {
+  ctx.fillStyle = "#ffffff"
+  ctx.font = font
+  ctx.textAlign = "center"
+  ctx.textBaseline = "middle"
+  ctx.fillText(symbol, 0, 2)
+}
+
+export const TOKEN_DEFINITIONS = [
+  {
+    id: "btc",
+    name: "Bitcoin",
+    color: "#f7931a",
+    spawnWeight: 1,
+    price: 100,
+    // Bitcoin: Wider gates for exactly 10 seconds
+    duration: 10000,
+    stacking: "refresh",
+    priority: 1,
+    effect: { speedMultiplier: BTC_SPEED_BOOST, gapMultiplier: 1 + GATE_GAP_INCREASE_PERCENT / 100 },
+    visuals: {},
+    drawIcon: (ctx) => {
+      drawCoin(ctx, "#f7931a")
+      drawSymbol(ctx, "₿", "30px Arial")
+    },
+  },
+  {
+    id: "eth",
+    name: "Ethereum",
+    color: "#627eea",
+    spawnWeight: 1,
+    price: 40,
+    // ETH: Slow game for 5 seconds, more ETH means a longer slowdown
+    duration: 5000,
+    stacking: "extend",
+    priority: 2,
+    effect: { speedMultiplier: 0.5 },
+    visuals: {},
+    drawIcon: (ctx) => {
+      drawCoin(ctx, "#627eea")
+      drawSymbol(ctx, "Ξ", "30px Arial")
+    },
+  },
+  {
+    id: "tao",
+    name: "Bittensor",
+    color: "#1a1a1a",
+    spawnWeight: 1,
+    price: 30,
+    // TAO: Flashing gates for 5 seconds
+    duration: 5000,
+    stacking: "refresh",
+    priority: 0,
+    effect: {},
+    visuals: { flashingGates: true },
+    drawIcon: (ctx) => {
+      drawCoin(ctx, "#1a1a1a")
+
+      // Draw hexagon
+      const hexSize = 15
+      ctx.beginPath()
+      for (let i = 0; i < 6; i++) {
+        const angle = (Math.PI / 3) * i
+        const hx = hexSize * Math.cos(angle)
+        const hy = hexSize * Math.sin(angle)
+        if (i === 0) ctx.moveTo(hx, hy)
+        else ctx.lineTo(hx, hy)
+      }
+      ctx.closePath()
+      ctx.strokeStyle = "#ffffff"
+      ctx.lineWidth = 2
+      ctx.stroke()
+
+      // Draw T
+      ctx.fillStyle = "#ffffff"
+      ctx.fillRect(-8, -8, 16, 3)
+      ctx.fillRect(0, -8, 3, 16)
+    },
+  },
+  {
+    id: "bch",
+    name: "Bitcoin Cash",
+    color: "#8dc351",
+    spawnWeight: 1,
+    price: 10,
+    // BCH: Chaos mode, the rocket gets random kicks; every extra BCH adds more chaos
+    duration: BCH_CHAOS_DURATION,
+    stacking: "stack",
+    priority: 0,
+    effect: { velocityJitter: 2 },
+    visuals: { screenTint: "rgba(255, 0, 0, 0.1)" },
+    drawIcon: (ctx) => {
+      drawCoin(ctx, "#8dc351")
+
+      ctx.save()
+      ctx.rotate(Math.PI / 12) // Slight rotation for the BCH logo
+      ctx.lineWidth = 3
+      ctx.strokeStyle = "#ffffff"
+
+      // Draw the B shape
+      ctx.beginPath()
+      ctx.moveTo(-10, -12)
+      ctx.lineTo(-10, 12)
+      ctx.stroke()
+
+      // Draw the two horizontal lines
+      ctx.beginPath()
+      ctx.moveTo(-10, -6)
+      ctx.lineTo(10, -6)
+      ctx.stroke()
+
+      ctx.beginPath()
+      ctx.moveTo(-10, 6)
+      ctx.lineTo(10, 6)
+      ctx.stroke()
+
+      // Draw the curved parts of B
+      ctx.beginPath()
+      ctx.arc(-5, -9, 5, Math.PI * 1.5, Math.PI * 0.5, false)
+      ctx.stroke()
+
+      ctx.beginPath()
+      ctx.arc(-5, 3, 5, Math.PI * 1.5, Math.PI * 0.5, false)
+      ctx.stroke()
+
+      ctx.restore()
+    },
+  },
+  {
+    id: "hbar",
+    name: "Hedera",
+    color: "#222222",
+    spawnWeight: 1,
+    price: 5,
+    // HBAR: Gold mode for 10 seconds
+    duration: 10000,
+    stacking: "extend",
+    priority: 0,
+    effect: {},
+    visuals: { goldMode: true },
+    drawIcon: (ctx) => {
+      drawCoin(ctx, "#222222") // Hedera uses a dark background
+
+      ctx.strokeStyle = "#00baff"
+      ctx.lineWidth = 3
+
+      // Draw the stylized 'h' of Hedera
+      ctx.beginPath()
+      // Left vertical line
+      ctx.moveTo(-10, -10)
+      ctx.lineTo(-10, 10)
+
+      // Right vertical line
+      ctx.moveTo(10, -10)
+      ctx.lineTo(10, 10)
+
+      // Horizontal connecting line
+      ctx.moveTo(-10, 0)
+      ctx.lineTo(10, 0)
+
+      // Horizontal bar through (distinctive feature of HBAR logo)
+      ctx.moveTo(-15, -5)
+      ctx.lineTo(15, -5)
+
+      ctx.stroke()
+    },
+  },
+  {
+    id: "sol",
+    name: "Solana",
+    color: "#9945FF",
+    spawnWeight: 1,
+    price: 25,
+    // SOL: Straight line and transparent gates for 5 seconds, cancelling ETH and BTC speed changes
+    duration: SOL_EFFECT_DURATION,
+    stacking: "override",
+    priority: 3,
+    effect: {
+      speedMultiplier: SOL_SPEED_BOOST,
+      disablesGravity: true,
+      freezesVelocity: true,
+      disablesCollision: true,
+    },
+    visuals: { translucentGates: true, trailColor: "#9945FF", rocketGlow: "#9945FF", steadyRocket: true },
+    drawIcon: (ctx) => {
+      drawCoin(ctx, "#9945FF") // Solana purple
+      drawSymbol(ctx, "S", "bold 30px Arial")
+
+      // Add a glow effect
+      ctx.save()
+      ctx.shadowColor = "#9945FF"
+      ctx.shadowBlur = 15
+      ctx.beginPath()
+      ctx.arc(0, 0, TOKEN_ICON_RADIUS + 2, 0, Math.PI * 2)
+      ctx.strokeStyle = "#ffffff"
+      ctx.lineWidth = 2
+      ctx.stroke()
+      ctx.restore()
+    },
+  },
+] as const satisfies readonly TokenDefinition[]
+
+export type TokenType = (typeof TOKEN_DEFINITIONS)[number]["id"]
+
+export const TOKEN_TYPES: TokenType[] = TOKEN_DEFINITIONS.map((definition) => definition.id)
+
+const definitionsById = new Map<string, TokenDefinition>(TOKEN_DEFINITIONS.map((definition) => [definition.id, definition]))
+
+export function getTokenDefinition(tokenType: TokenType): TokenDefinition {
+  return definitionsById.get(tokenType)!
+}
+
+// Whether two tokens' effects touch any of the same simulation hooks
+export function effectsCompete(a: TokenDefinition, b: TokenDefinition) {
+  return Object.keys(a.effect).some((hook) => hook in b.effect)
+}
+
+// Draw a token's icon centred at (x, y) with the given radius
+export function drawTokenIcon(ctx: CanvasRenderingContext2D, tokenType: TokenType, x: number, y: number, radius: number) {
+  const scale = radius / TOKEN_ICON_RADIUS
+  ctx.save()
+  ctx.translate(x, y)
+  ctx.scale(scale, scale)
+  getTokenDefinition(tokenType).drawIcon(ctx)
+  ctx.restore()
+}
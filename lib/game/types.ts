@@ -0,0 +1,34 @@
+import type { Candle } from "./market-data"
+import { TOKEN_TYPES, type TokenType } from "./tokens"
+
+export type { TokenType } from "./tokens"
+
+// Game objects
+export interface Gate {
+  id: number // Stable identity across steps, used for render interpolation
+  x: number
+  topHeight: number
+  hasPassed: boolean
+  hasCollided: boolean // Zen: the rocket already paid for hitting this gate
+  closestClearance: number // Closest the rocket has come to the gate's edges while flying through it
+  tokenType: TokenType | null
+  baseGateGap: number // Store the original gap
+  candle: Candle | null // The candle this gate was built from, in market data mode
+}
+
+export interface TrailPoint {
+  y: number
+  isAscending: boolean
+}
+
+export interface TokenEffect {
+  type: TokenType
+  startTick: number // When the current timer started (reset by refresh)
+  endTick: number
+}
+
+export type TokenCounts = Record<TokenType, number>
+
+export function createEmptyTokenCounts(): TokenCounts {
+  return Object.fromEntries(TOKEN_TYPES.map((tokenType) => [tokenType, 0])) as TokenCounts
+}
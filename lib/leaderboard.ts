@@ -0,0 +1,164 @@
+import { z } from "zod"
+import { type Replay, replaySchema } from "@/lib/game/replay"
+import { DEFAULT_PRESET, DIFFICULTY_PRESETS, type DifficultyPreset } from "@/lib/game/rules"
+import type { TokenCounts } from "@/lib/game/types"
+
+// Shared leaderboard types and request schemas, used by the API routes and the client
+
+export const TIME_WINDOWS = ["daily", "weekly", "all"] as const
+export type TimeWindow = (typeof TIME_WINDOWS)[number]
+
+export const TIME_WINDOW_LABELS: Record<TimeWindow, string> = {
+  daily: "Daily",
+  weekly: "Weekly",
+  all: "All time",
+}
+
+export interface ScoreEntry {
+  id: string
+  name: string
+  preset: DifficultyPreset // Boards are per preset; entries from before presets are Normal
+  score: number
+  seed: number
+  tokenCounts: TokenCounts
+  createdAt: string // ISO timestamp
+  runHash?: string // Seed, rules and inputs of the verified replay; missing on entries from before it was kept
+  day?: string // Set on ranked Daily Challenge runs, which have a board per day instead of the Endless boards
+}
+
+export interface RankedScoreEntry extends ScoreEntry {
+  rank: number
+}
+
+const dayKeySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/)
+
+// A submission is just a name and the replay; the server re-simulates it to get the score.
+// A ranked Daily Challenge run also says which day it was flown for.
+export const scoreSubmissionSchema = z.object({
+  name: z.string().trim().min(1).max(20),
+  replay: replaySchema,
+  day: dayKeySchema.optional(),
+})
+
+export type ScoreSubmission = z.infer<typeof scoreSubmissionSchema>
+
+// Which board to read: an Endless board by window and preset, or a day's Daily Challenge board
+export type LeaderboardBoard = { day: string } | { window: TimeWindow; preset: DifficultyPreset }
+
+export const leaderboardQuerySchema = z.object({
+  window: z.enum(TIME_WINDOWS).default("all"),
+  preset: z.enum(DIFFICULTY_PRESETS).default(DEFAULT_PRESET),
+  day: dayKeySchema.optional(), // Read that day's Daily Challenge board instead
+  limit: z.coerce.number().int().min(1).max(100).default(10),
+})
+
+export const aroundQuerySchema = z.object({
+  window: z.enum(TIME_WINDOWS).default("all"),
+  preset: z.enum(DIFFICULTY_PRESETS).default(DEFAULT_PRESET),
+  day: dayKeySchema.optional(),
+  id: z.string().min(1),
+  radius: z.coerce.number().int().min(1).max(25).default(3),
+})
+
+export function getLeaderboardBoard(query: { window: TimeWindow; preset: DifficultyPreset; day?: string }) {
+  const { window, preset, day } = query
+  const board: LeaderboardBoard = day ? { day } : { window, preset }
+  return board
+}
+
+// Why the server refused a submission
+export const SCORE_ERROR_CODES = [
+  "INVALID_SUBMISSION",
+  "REPLAY_VERSION_MISMATCH",
+  "REPLAY_TOO_LONG",
+  "INVALID_INPUTS",
+  "REPLAY_INCOMPLETE",
+  "SCORE_MISMATCH",
+  "TOKEN_COUNT_MISMATCH",
+  "CUSTOM_RULES",
+  "UNRANKED_MODE",
+  "DUPLICATE_RUN",
+  "DAILY_SEED_MISMATCH",
+  "DAILY_CLOSED",
+  "DAILY_ALREADY_RANKED",
+  "DAILY_SEED",
+] as const
+export type ScoreErrorCode = (typeof SCORE_ERROR_CODES)[number]
+
+export const SCORE_ERROR_MESSAGES: Record<ScoreErrorCode, string> = {
+  INVALID_SUBMISSION: "The submission was malformed.",
+  REPLAY_VERSION_MISMATCH: "This run was recorded with a different game version.",
+  REPLAY_TOO_LONG: "This run is longer than the server will verify.",
+  INVALID_INPUTS: "The recorded inputs are out of order or out of range.",
+  REPLAY_INCOMPLETE: "The replay does not end where the run ended.",
+  SCORE_MISMATCH: "The replay does not reproduce the submitted score.",
+  TOKEN_COUNT_MISMATCH: "The replay does not reproduce the submitted token counts.",
+  CUSTOM_RULES: "Only runs played on a difficulty preset can be ranked.",
+  UNRANKED_MODE: "Only Endless runs can be ranked.",
+  DUPLICATE_RUN: "This run is already on the leaderboard.",
+  DAILY_SEED_MISMATCH: "This run wasn't flown on that day's course.",
+  DAILY_CLOSED: "That day's challenge is closed.",
+  DAILY_ALREADY_RANKED: "That name already has a ranked run for this day.",
+  DAILY_SEED: "Runs on a Daily Challenge course go on the daily board.",
+}
+
+export class ScoreSubmissionError extends Error {
+  constructor(
+    readonly code: ScoreErrorCode,
+    message = SCORE_ERROR_MESSAGES[code],
+  ) {
+    super(message)
+    this.name = "ScoreSubmissionError"
+  }
+}
+
+// Start of the current board period, in UTC. Weeks start on Monday.
+export function getWindowStart(window: TimeWindow, now = new Date()): Date | null {
+  if (window === "all") return null
+
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+  if (window === "weekly") {
+    const daysSinceMonday = (start.getUTCDay() + 6) % 7
+    start.setUTCDate(start.getUTCDate() - daysSinceMonday)
+  }
+  return start
+}
+
+// Client helpers
+
+function getBoardQuery(board: LeaderboardBoard) {
+  return "day" in board ? `day=${board.day}` : `window=${board.window}&preset=${board.preset}`
+}
+
+export async function fetchTopScores(board: LeaderboardBoard, limit = 10): Promise<RankedScoreEntry[]> {
+  const response = await fetch(`/api/scores?${getBoardQuery(board)}&limit=${limit}`)
+  if (!response.ok) throw new Error(`Failed to load leaderboard (${response.status})`)
+  const data = (await response.json()) as { scores: RankedScoreEntry[] }
+  return data.scores
+}
+
+export async function fetchScoresAround(board: LeaderboardBoard, id: string): Promise<RankedScoreEntry[]> {
+  const response = await fetch(`/api/scores/around?${getBoardQuery(board)}&id=${encodeURIComponent(id)}`)
+  if (response.status === 404) return []
+  if (!response.ok) throw new Error(`Failed to load scores around entry (${response.status})`)
+  const data = (await response.json()) as { scores: RankedScoreEntry[] }
+  return data.scores
+}
+
+// `day` submits a ranked Daily Challenge run to that day's board
+export async function submitScore(name: string, replay: Replay, day?: string): Promise<RankedScoreEntry> {
+  const submission: ScoreSubmission = { name, replay, day }
+  const response = await fetch("/api/scores", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(submission),
+  })
+  if (!response.ok) {
+    const data = (await response.json().catch(() => null)) as { error?: string } | null
+    const code = SCORE_ERROR_CODES.find((known) => known === data?.error)
+    if (code) throw new ScoreSubmissionError(code)
+    throw new Error(`Failed to submit score (${response.status})`)
+  }
+  const data = (await response.json()) as { entry: RankedScoreEntry }
+  return data.entry
+}
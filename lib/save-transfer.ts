@@ -0,0 +1,121 @@
+import { z } from "zod"
+import type { SaveData } from "@/lib/game/save-data"
+
+// Moving saves between browsers: a save exported as a file with a checksum, so
+// damaged files are refused on import, or handed over through a short-lived
+// code on this server. Shared by the API routes and the client. The checksum
+// is not a signature: a save only lives in the browser, so the server has
+// nothing of its own to vouch for, and anyone can recompute it. It catches
+// damaged files, not edited ones.
+
+export const SAVE_FILE_FORMAT = "btc-trading-game-save"
+export const TRANSFER_CODE_LENGTH = 8
+export const TRANSFER_CODE_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789"
+export const TRANSFER_CODE_TTL_MS = 10 * 60 * 1000
+
+// The save is checked against the current format only after the checksum,
+// since files from older versions are migrated on import
+export const saveFileSchema = z.object({
+  format: z.literal(SAVE_FILE_FORMAT),
+  exportedAt: z.string(),
+  save: z.unknown(),
+  checksum: z.string().regex(/^[0-9a-f]{64}$/),
+})
+
+export type SaveFile = z.infer<typeof saveFileSchema>
+
+// SHA-256 of the save exactly as it is written in the file. Browsers only
+// offer crypto.subtle in a secure context (https or localhost).
+export async function getSaveChecksum(save: unknown): Promise<string> {
+  if (!globalThis.crypto?.subtle) throw new SaveTransferError("INSECURE_CONTEXT")
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(JSON.stringify(save)))
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("")
+}
+
+export const transferCodeSchema = z.string().regex(new RegExp(`^[A-Z0-9]{${TRANSFER_CODE_LENGTH}}$`))
+
+export const redeemTransferSchema = z.object({ code: transferCodeSchema })
+
+// Why a save or a code was refused
+export const SAVE_ERROR_CODES = [
+  "INVALID_REQUEST",
+  "INVALID_FILE",
+  "BAD_CHECKSUM",
+  "UNREADABLE_SAVE",
+  "NEWER_SAVE",
+  "UNKNOWN_CODE",
+  "TOO_MANY_ATTEMPTS",
+  "TOO_MANY_TRANSFERS",
+  "SAVE_TOO_LARGE",
+  "INSECURE_CONTEXT",
+] as const
+export type SaveErrorCode = (typeof SAVE_ERROR_CODES)[number]
+
+export const SAVE_ERROR_MESSAGES: Record<SaveErrorCode, string> = {
+  INVALID_REQUEST: "The request was malformed.",
+  INVALID_FILE: "This isn't a save file from this game.",
+  BAD_CHECKSUM: "This save file has been damaged since it was exported.",
+  UNREADABLE_SAVE: "This save couldn't be read.",
+  NEWER_SAVE: "This save was made with a newer version of the game.",
+  UNKNOWN_CODE: "That code is wrong or has expired.",
+  TOO_MANY_ATTEMPTS: "Too many wrong codes. Wait a few minutes and try again.",
+  TOO_MANY_TRANSFERS: "The server is holding too many saves right now. Try again in a few minutes.",
+  SAVE_TOO_LARGE: "This save is too large to transfer. Download it as a file instead.",
+  INSECURE_CONTEXT: "Save files can only be made over https. Use a transfer code instead.",
+}
+
+export class SaveTransferError extends Error {
+  constructor(
+    readonly code: SaveErrorCode,
+    message = SAVE_ERROR_MESSAGES[code],
+  ) {
+    super(message)
+    this.name = "SaveTransferError"
+  }
+}
+
+export interface TransferCode {
+  code: string
+  expiresAt: string // ISO timestamp
+}
+
+// Client helpers
+
+async function postSaveRequest<T>(url: string, body: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  })
+  if (!response.ok) {
+    const data = (await response.json().catch(() => null)) as { error?: string } | null
+    const code = SAVE_ERROR_CODES.find((known) => known === data?.error)
+    if (code) throw new SaveTransferError(code)
+    throw new Error(`Save request failed (${response.status})`)
+  }
+  return (await response.json()) as T
+}
+
+export async function exportSaveFile(save: SaveData): Promise<SaveFile> {
+  return {
+    format: SAVE_FILE_FORMAT,
+    exportedAt: new Date().toISOString(),
+    save,
+    checksum: await getSaveChecksum(save),
+  }
+}
+
+// Check a save file's checksum and bring its save up to date
+export async function readSaveFile(file: unknown): Promise<SaveData> {
+  const data = await postSaveRequest<{ save: SaveData }>("/api/saves/import", { file })
+  return data.save
+}
+
+export async function createTransferCode(save: SaveData): Promise<TransferCode> {
+  return postSaveRequest<TransferCode>("/api/saves/transfer", { save })
+}
+
+export async function redeemTransferCode(code: string): Promise<SaveData> {
+  const data = await postSaveRequest<{ save: SaveData }>("/api/saves/transfer/redeem", { code })
+  return data.save
+}
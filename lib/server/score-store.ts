@@ -0,0 +1,104 @@
+import { randomUUID } from "node:crypto"
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises"
+import path from "node:path"
+import { DEFAULT_PRESET, type DifficultyPreset } from "@/lib/game/rules"
+import type { SimulationState } from "@/lib/game/simulation"
+import { type LeaderboardBoard, type RankedScoreEntry, type ScoreEntry, getWindowStart } from "@/lib/leaderboard"
+
+// File-backed score store. Good enough for a single server: the whole board is
+// one JSON file, and writes go through a queue so concurrent submissions never
+// clobber each other.
+
+const SCORES_FILE = process.env.SCORES_FILE ?? path.join(process.cwd(), "data", "scores.json")
+
+let writeQueue: Promise<unknown> = Promise.resolve()
+
+async function readScores(): Promise<ScoreEntry[]> {
+  try {
+    return JSON.parse(await readFile(SCORES_FILE, "utf8")) as ScoreEntry[]
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") return []
+    throw e
+  }
+}
+
+async function writeScores(scores: ScoreEntry[]) {
+  await mkdir(path.dirname(SCORES_FILE), { recursive: true })
+  // Write then rename so a crash mid-write never leaves a truncated file
+  const tempFile = `${SCORES_FILE}.tmp`
+  await writeFile(tempFile, JSON.stringify(scores))
+  await rename(tempFile, SCORES_FILE)
+}
+
+// Best first; on a tie whoever got there first ranks higher
+function compareEntries(a: ScoreEntry, b: ScoreEntry) {
+  return b.score - a.score || a.createdAt.localeCompare(b.createdAt)
+}
+
+function isOnBoard(entry: ScoreEntry, board: LeaderboardBoard) {
+  if ("day" in board) return entry.day === board.day
+  const start = getWindowStart(board.window)
+  return (
+    !entry.day && (entry.preset ?? DEFAULT_PRESET) === board.preset && (!start || new Date(entry.createdAt) >= start)
+  )
+}
+
+function rankForBoard(scores: ScoreEntry[], board: LeaderboardBoard): RankedScoreEntry[] {
+  return scores
+    .filter((entry) => isOnBoard(entry, board))
+    .sort(compareEntries)
+    .map((entry, index) => ({ ...entry, rank: index + 1 }))
+}
+
+export type ScoreAddition =
+  | { ok: true; entry: RankedScoreEntry }
+  | { ok: false; code: "DUPLICATE_RUN" | "DAILY_ALREADY_RANKED" }
+
+// Record a run. Only pass states and hashes that came out of replay verification.
+// A run goes on the board once, and a Daily Challenge day takes one run per name.
+export async function addScore(
+  name: string,
+  preset: DifficultyPreset,
+  verifiedState: SimulationState,
+  runHash: string,
+  day: string | null,
+): Promise<ScoreAddition> {
+  const task = writeQueue.then(async (): Promise<ScoreAddition> => {
+    const stored = await readScores()
+    if (stored.some((entry) => entry.runHash === runHash)) return { ok: false, code: "DUPLICATE_RUN" }
+    if (day && stored.some((entry) => entry.day === day && entry.name.toLowerCase() === name.toLowerCase())) {
+      return { ok: false, code: "DAILY_ALREADY_RANKED" }
+    }
+
+    const entry: ScoreEntry = {
+      id: randomUUID(),
+      name,
+      preset,
+      score: verifiedState.score,
+      seed: verifiedState.seed,
+      tokenCounts: { ...verifiedState.tokenCounts },
+      createdAt: new Date().toISOString(),
+      runHash,
+      ...(day && { day }),
+    }
+    const scores = [...stored, entry]
+    await writeScores(scores)
+    const board: LeaderboardBoard = day ? { day } : { window: "all", preset }
+    return { ok: true, entry: rankForBoard(scores, board).find((ranked) => ranked.id === entry.id)! }
+  })
+  // Keep the queue alive even if this write fails
+  writeQueue = task.catch(() => undefined)
+  return task
+}
+
+export async function getTopScores(board: LeaderboardBoard, limit: number): Promise<RankedScoreEntry[]> {
+  return rankForBoard(await readScores(), board).slice(0, limit)
+}
+
+// The entry with `id` plus up to `radius` neighbours either side, or null if it isn't on this board
+export async function getScoresAround(board: LeaderboardBoard, id: string, radius: number) {
+  const ranked = rankForBoard(await readScores(), board)
+  const index = ranked.findIndex((entry) => entry.id === id)
+  if (index === -1) return null
+  return ranked.slice(Math.max(0, index - radius), index + radius + 1)
+}
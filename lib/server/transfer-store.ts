@@ -0,0 +1,116 @@
+import { randomInt } from "node:crypto"
+import type { SaveData } from "@/lib/game/save-data"
+import {
+  TRANSFER_CODE_ALPHABET,
+  TRANSFER_CODE_LENGTH,
+  TRANSFER_CODE_TTL_MS,
+  type TransferCode,
+} from "@/lib/save-transfer"
+
+// Saves waiting to be picked up in another browser, by transfer code. Kept in
+// memory: a code only lives a few minutes and can be redeemed once, so losing
+// them on a restart just means asking for a new one. Codes are long enough that
+// guessing one is hopeless at the number of wrong guesses a code outlives.
+
+// Largest save, as JSON, the server will hold for a transfer
+export const MAX_TRANSFER_SAVE_BYTES = 2 * 1024 * 1024
+
+const MAX_PENDING_TRANSFERS = 100
+const MAX_CODE_ATTEMPTS = 10 // Tries at a fresh code before giving up; clashes are all but impossible
+
+// Wrong codes entered server-wide while a code waits before that code is
+// dropped, so no number of guessers, wherever they claim to be from, gets
+// a real chance at it
+const MAX_WRONG_GUESSES_PER_CODE = 1000
+
+// Wrong codes a known client may enter per window before it has to wait. The
+// clients tracked are capped, so made-up addresses can't grow the map forever.
+const MAX_FAILED_REDEEMS = 10
+const FAILED_REDEEM_WINDOW_MS = TRANSFER_CODE_TTL_MS
+const MAX_TRACKED_CLIENTS = 10_000
+
+interface PendingTransfer {
+  save: SaveData
+  expiresAt: number
+  wrongGuessesAtCreation: number // wrongGuesses.count when the code was handed out
+}
+
+interface FailedRedeems {
+  count: number
+  resetsAt: number
+}
+
+export type TransferRedemption =
+  | { ok: true; save: SaveData }
+  | { ok: false; code: "UNKNOWN_CODE" | "TOO_MANY_ATTEMPTS" }
+
+// Each route is bundled on its own, so the maps hang off globalThis for all of them to share
+const transferGlobal = globalThis as typeof globalThis & {
+  saveTransfers?: Map<string, PendingTransfer>
+  failedRedeems?: Map<string, FailedRedeems>
+  wrongTransferGuesses?: { count: number }
+}
+const transfers = (transferGlobal.saveTransfers ??= new Map<string, PendingTransfer>())
+const failedRedeems = (transferGlobal.failedRedeems ??= new Map<string, FailedRedeems>())
+const wrongGuesses = (transferGlobal.wrongTransferGuesses ??= { count: 0 })
+
+function removeExpired(now: number) {
+  for (const [code, transfer] of transfers) {
+    const guessedAt = wrongGuesses.count - transfer.wrongGuessesAtCreation
+    if (transfer.expiresAt <= now || guessedAt >= MAX_WRONG_GUESSES_PER_CODE) transfers.delete(code)
+  }
+  for (const [client, failures] of failedRedeems) {
+    if (failures.resetsAt <= now) failedRedeems.delete(client)
+  }
+}
+
+function createCode() {
+  const characters = Array.from(
+    { length: TRANSFER_CODE_LENGTH },
+    () => TRANSFER_CODE_ALPHABET[randomInt(TRANSFER_CODE_ALPHABET.length)],
+  )
+  return characters.join("")
+}
+
+// Park a save under a fresh code, or null when the server is already holding as many as it will
+export function createTransfer(save: SaveData): TransferCode | null {
+  const now = Date.now()
+  removeExpired(now)
+  if (transfers.size >= MAX_PENDING_TRANSFERS) return null
+
+  for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt++) {
+    const code = createCode()
+    if (transfers.has(code)) continue
+
+    const expiresAt = now + TRANSFER_CODE_TTL_MS
+    transfers.set(code, { save, expiresAt, wrongGuessesAtCreation: wrongGuesses.count })
+    return { code, expiresAt: new Date(expiresAt).toISOString() }
+  }
+  return null
+}
+
+// The save behind a code; a code works only once. `client` identifies who is
+// guessing, when the server can tell, so too many wrong codes lock them out
+// for a while; every wrong code also counts against the codes waiting.
+export function redeemTransfer(code: string, client: string | null): TransferRedemption {
+  const now = Date.now()
+  removeExpired(now)
+
+  const failures = client === null ? undefined : failedRedeems.get(client)
+  if (failures && failures.count >= MAX_FAILED_REDEEMS) return { ok: false, code: "TOO_MANY_ATTEMPTS" }
+
+  const transfer = transfers.get(code)
+  if (!transfer) {
+    wrongGuesses.count++
+    if (client !== null && (failures || failedRedeems.size < MAX_TRACKED_CLIENTS)) {
+      failedRedeems.set(client, {
+        count: (failures?.count ?? 0) + 1,
+        resetsAt: failures?.resetsAt ?? now + FAILED_REDEEM_WINDOW_MS,
+      })
+    }
+    return { ok: false, code: "UNKNOWN_CODE" }
+  }
+
+  transfers.delete(code)
+  return { ok: true, save: transfer.save }
+}
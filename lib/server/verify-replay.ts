@@ -0,0 +1,84 @@
+import { createHash } from "node:crypto"
+import { SIMULATION_TICK_RATE, SIMULATION_VERSION } from "@/lib/game/constants"
+import { getDailySeed, getDayKey } from "@/lib/game/daily"
+import { DEFAULT_MODE } from "@/lib/game/modes"
+import { type Replay, getReplayMode, getReplayRules, simulateReplay } from "@/lib/game/replay"
+import { DEFAULT_PRESET, type DifficultyPreset, getRulesPreset } from "@/lib/game/rules"
+import type { SimulationState } from "@/lib/game/simulation"
+import { TOKEN_TYPES } from "@/lib/game/tokens"
+import type { ScoreErrorCode } from "@/lib/leaderboard"
+
+// Server-side anti-cheat: re-run the headless simulation from the submitted
+// seed and inputs and only trust what it produces.
+
+// Longest run we are willing to re-simulate per request (30 minutes of play)
+const MAX_REPLAY_TICKS = SIMULATION_TICK_RATE * 60 * 30
+
+export type ReplayVerification =
+  | { ok: true; state: SimulationState; preset: DifficultyPreset; runHash: string }
+  | { ok: false; code: ScoreErrorCode }
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Daily courses still open for ranked runs: today's, and yesterday's for a run that crossed midnight
+function getOpenDays(now = Date.now()) {
+  return [getDayKey(new Date(now)), getDayKey(new Date(now - DAY_MS))]
+}
+
+// `day` marks a ranked Daily Challenge run, which has to be that day's course
+// flown on Normal; Endless runs mustn't be on an open daily course.
+export function verifyReplay(replay: Replay, day?: string): ReplayVerification {
+  if (replay.version !== SIMULATION_VERSION) {
+    return { ok: false, code: "REPLAY_VERSION_MISMATCH" }
+  }
+  if (replay.finalTick > MAX_REPLAY_TICKS) {
+    return { ok: false, code: "REPLAY_TOO_LONG" }
+  }
+
+  // The boards rank Endless runs, one per preset, so other modes and hand-tuned rules have nowhere to rank
+  if (getReplayMode(replay) !== DEFAULT_MODE) {
+    return { ok: false, code: "UNRANKED_MODE" }
+  }
+  const preset = getRulesPreset(getReplayRules(replay))
+  if (!preset) {
+    return { ok: false, code: "CUSTOM_RULES" }
+  }
+
+  const openDays = getOpenDays()
+  if (day) {
+    if (!openDays.includes(day)) return { ok: false, code: "DAILY_CLOSED" }
+    if (replay.seed !== getDailySeed(day) || preset !== DEFAULT_PRESET) {
+      return { ok: false, code: "DAILY_SEED_MISMATCH" }
+    }
+  } else if (openDays.some((openDay) => replay.seed === getDailySeed(openDay))) {
+    return { ok: false, code: "DAILY_SEED" }
+  }
+
+  // Inputs must be strictly increasing ticks within the run
+  for (let i = 0; i < replay.inputs.length; i++) {
+    const tick = replay.inputs[i]
+    if (tick > replay.finalTick || (i > 0 && tick <= replay.inputs[i - 1])) {
+      return { ok: false, code: "INVALID_INPUTS" }
+    }
+  }
+
+  const state = simulateReplay(replay)
+
+  // The run has to actually end, and end exactly where the client says it did
+  if (!state.isGameOver || state.tick !== replay.finalTick) {
+    return { ok: false, code: "REPLAY_INCOMPLETE" }
+  }
+  if (state.score !== replay.score) {
+    return { ok: false, code: "SCORE_MISMATCH" }
+  }
+  if (TOKEN_TYPES.some((tokenType) => state.tokenCounts[tokenType] !== replay.tokenCounts[tokenType])) {
+    return { ok: false, code: "TOKEN_COUNT_MISMATCH" }
+  }
+
+  return { ok: true, state, preset, runHash: hashRun(replay.seed, preset, replay.inputs) }
+}
+
+// The same seed, preset and inputs always fly the same run, so this identifies a run however often it's sent
+function hashRun(seed: number, preset: DifficultyPreset, inputs: number[]) {
+  return createHash("sha256").update(JSON.stringify([seed, preset, inputs])).digest("hex")
+}
@@ -0,0 +1,31 @@
+import { parseArgs } from "node:util"
+import { z } from "zod"
+import { DEFAULT_MAX_TICKS, benchmarkBot, benchmarkRulesSchema, getBenchmarkRules } from "../lib/game/bot-benchmark"
+
+// npm run bench -- --seeds=5000 --preset=hard --gravity=0.3
+// Plays the autopilot over many seeds in this process, without the API route's
+// per-request cap, and prints the report as JSON.
+
+const benchArgsSchema = benchmarkRulesSchema
+  .extend({
+    seeds: z.coerce.number().int().min(1).default(1000),
+    startSeed: z.coerce.number().int().min(0).default(1),
+    maxTicks: z.coerce.number().int().min(1).default(DEFAULT_MAX_TICKS),
+    results: z.boolean().default(false), // Include every run, not just the summary
+  })
+  .strict()
+
+function exitWithIssues(issues: z.ZodIssue[]): never {
+  console.error(issues.map((issue) => `--${issue.path.join(".")}: ${issue.message}`).join("\n"))
+  process.exit(1)
+}
+
+const args = benchArgsSchema.safeParse(parseArgs({ strict: false }).values)
+if (!args.success) exitWithIssues(args.error.issues)
+
+const { seeds, startSeed, maxTicks, results: includeResults, ...ruleArgs } = args.data
+const rules = getBenchmarkRules(ruleArgs)
+if (!rules.success) exitWithIssues(rules.error.issues)
+
+const { results, ...summary } = benchmarkBot({ seeds, startSeed, maxTicks, rules: rules.data })
+console.log(JSON.stringify(includeResults ? { ...summary, results } : summary, null, 2))